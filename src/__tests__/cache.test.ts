@@ -0,0 +1,131 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readdirSync, rmSync, statSync, utimesSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+vi.mock('../git.js', () => ({
+  getGitCommonDir: vi.fn().mockResolvedValue('/repo/.git'),
+}));
+
+import { cacheKey, defaultCacheDir, readCacheEntry, writeCacheEntry } from '../cache.js';
+
+const lookup = { fingerprint: 'fp', files: { 'src/a.ts': 'h1' }, committedFiles: { 'src/b.ts': 'blob1' } };
+const entry = { id: 'lint', passedAt: '2026-01-01T00:00:00.000Z', ...lookup };
+const entryWith = (fileHash: string) => ({ ...entry, files: { 'src/a.ts': fileHash } });
+const entryFile = (fileHash: string) => `${cacheKey({ ...lookup, files: { 'src/a.ts': fileHash } })}.json`;
+
+// ---------------------------------------------------------------------------
+// cacheKey — pure function, no mocks needed
+// ---------------------------------------------------------------------------
+
+describe('cacheKey', () => {
+  it('does not depend on the order of the files', () => {
+    expect(cacheKey({ fingerprint: 'fp', files: { 'a.ts': 'h1', 'b.ts': 'h2' }, committedFiles: { 'c.ts': 'b1', 'd.ts': 'b2' } }))
+      .toBe(cacheKey({ fingerprint: 'fp', files: { 'b.ts': 'h2', 'a.ts': 'h1' }, committedFiles: { 'd.ts': 'b2', 'c.ts': 'b1' } }));
+  });
+
+  it('changes with the gate fingerprint, the file contents and the file set', () => {
+    const key = cacheKey(lookup);
+    expect(cacheKey({ ...lookup, fingerprint: 'other' })).not.toBe(key);
+    expect(cacheKey({ ...lookup, files: { 'src/a.ts': 'h2' } })).not.toBe(key);
+    expect(cacheKey({ ...lookup, files: { 'src/a.ts': 'h1', 'src/c.ts': 'h2' } })).not.toBe(key);
+    expect(cacheKey({ ...lookup, files: {} })).not.toBe(key);
+  });
+
+  it('changes with the committed content of the other matching files', () => {
+    const key = cacheKey(lookup);
+    expect(cacheKey({ ...lookup, committedFiles: { 'src/b.ts': 'blob2' } })).not.toBe(key);
+    expect(cacheKey({ ...lookup, committedFiles: {} })).not.toBe(key);
+    // A diverged file is not the committed file of the same path and hash
+    expect(cacheKey({ ...lookup, files: {}, committedFiles: { 'src/a.ts': 'h1', 'src/b.ts': 'blob1' } })).not.toBe(key);
+  });
+});
+
+describe('defaultCacheDir', () => {
+  it('lives in the git directory shared by the worktrees', async () => {
+    expect(await defaultCacheDir()).toBe(join('/repo/.git', 'delta-gate', 'cache'));
+  });
+});
+
+// ---------------------------------------------------------------------------
+// readCacheEntry / writeCacheEntry — real files in a temporary directory
+// ---------------------------------------------------------------------------
+
+describe('cache entries', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = join(mkdtempSync(join(tmpdir(), 'delta-gate-cache-')), 'cache');
+  });
+
+  afterEach(() => {
+    rmSync(join(dir, '..'), { recursive: true, force: true });
+  });
+
+  it('reads back a written entry, creating the cache directory', async () => {
+    await writeCacheEntry(dir, entry);
+    expect(await readCacheEntry(dir, lookup)).toEqual(entry);
+  });
+
+  it('misses on other fingerprints, other files, other commits and missing directories', async () => {
+    expect(await readCacheEntry(dir, lookup)).toBeNull();
+    await writeCacheEntry(dir, entry);
+    expect(await readCacheEntry(dir, { ...lookup, fingerprint: 'other' })).toBeNull();
+    expect(await readCacheEntry(dir, { ...lookup, files: { 'src/a.ts': 'h2' } })).toBeNull();
+    expect(await readCacheEntry(dir, { ...lookup, files: {} })).toBeNull();
+    expect(await readCacheEntry(dir, { ...lookup, committedFiles: { 'src/b.ts': 'blob2' } })).toBeNull();
+  });
+
+  it('misses on entries that do not describe their key, or are damaged', async () => {
+    await writeCacheEntry(dir, entry);
+    writeFileSync(join(dir, entryFile('h1')), JSON.stringify(entryWith('h2')));
+    expect(await readCacheEntry(dir, lookup)).toBeNull();
+    // Written by a version keying entries on the diverged files only
+    const { committedFiles: _committed, ...legacy } = entry;
+    writeFileSync(join(dir, entryFile('h1')), JSON.stringify(legacy));
+    expect(await readCacheEntry(dir, lookup)).toBeNull();
+    writeFileSync(join(dir, entryFile('h1')), '{"id":"lint","pass');
+    expect(await readCacheEntry(dir, lookup)).toBeNull();
+  });
+
+  it('marks a hit as recently used, unless asked not to', async () => {
+    await writeCacheEntry(dir, entry);
+    const path = join(dir, entryFile('h1'));
+    utimesSync(path, new Date(1000), new Date(1000));
+
+    await readCacheEntry(dir, lookup, false);
+    expect(statSync(path).mtimeMs).toBe(1000);
+    await readCacheEntry(dir, lookup);
+    expect(statSync(path).mtimeMs).toBeGreaterThan(1000);
+  });
+
+  it('evicts the least recently used entries beyond the limit', async () => {
+    await writeCacheEntry(dir, entryWith('old'), 2);
+    await writeCacheEntry(dir, entryWith('used'), 2);
+    utimesSync(join(dir, entryFile('old')), new Date(1000), new Date(1000));
+    utimesSync(join(dir, entryFile('used')), new Date(2000), new Date(2000));
+
+    await writeCacheEntry(dir, entryWith('new'), 2);
+
+    expect(readdirSync(dir).sort()).toEqual([entryFile('new'), entryFile('used')].sort());
+  });
+
+  it('writes entries atomically, concurrent writers included', async () => {
+    await Promise.all([writeCacheEntry(dir, entry), writeCacheEntry(dir, entry), writeCacheEntry(dir, entryWith('h2'))]);
+
+    expect(readdirSync(dir).sort()).toEqual([entryFile('h1'), entryFile('h2')].sort());
+    expect(await readCacheEntry(dir, lookup)).toEqual(entry);
+  });
+
+  it('removes the temporary files of writers that died', async () => {
+    await writeCacheEntry(dir, entry);
+    writeFileSync(join(dir, 'stale.json.1.tmp'), '{');
+    utimesSync(join(dir, 'stale.json.1.tmp'), new Date(1000), new Date(1000));
+    writeFileSync(join(dir, 'writing.json.2.tmp'), '{');
+
+    await writeCacheEntry(dir, entryWith('h2'));
+
+    expect(readdirSync(dir)).not.toContain('stale.json.1.tmp');
+    expect(readdirSync(dir)).toContain('writing.json.2.tmp');
+  });
+});
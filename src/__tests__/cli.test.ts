@@ -1,4 +1,8 @@
 import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, readFileSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { DiffEntry } from '../types.js';
 
 // ---------------------------------------------------------------------------
 // ExitError — thrown by the process.exit spy so async code stops executing
@@ -22,8 +26,9 @@ let capturedExitCode: number;
 let exitSpy: ReturnType<typeof vi.spyOn>;
 let unhandledRejectionHandler: (reason: unknown) => void;
 let stderrSpy: ReturnType<typeof vi.spyOn>;
+let stdinSpy: ReturnType<typeof vi.spyOn> | undefined;
 
-beforeEach(() => {
+function spyOnExit(): void {
   capturedExitCode = -1;
 
   // The FIRST call captures the exit code and throws to stop main() execution.
@@ -39,6 +44,10 @@ beforeEach(() => {
     }
     return undefined as never;
   });
+}
+
+beforeEach(() => {
+  spyOnExit();
 
   unhandledRejectionHandler = (reason: unknown) => {
     if (!(reason instanceof ExitError)) {
@@ -59,6 +68,8 @@ beforeEach(() => {
 afterEach(() => {
   exitSpy.mockRestore();
   stderrSpy.mockRestore();
+  stdinSpy?.mockRestore();
+  stdinSpy = undefined;
   process.off('unhandledRejection', unhandledRejectionHandler);
   process.argv = ORIGINAL_ARGV;
 });
@@ -70,50 +81,116 @@ afterEach(() => {
 function createMocks(overrides: {
   git?: Partial<{
     getGitRoot: ReturnType<typeof vi.fn>;
+    getGitCommonDir: ReturnType<typeof vi.fn>;
+    getGitHooksDir: ReturnType<typeof vi.fn>;
     getHeadSha: ReturnType<typeof vi.fn>;
-    getDiffFiles: ReturnType<typeof vi.fn>;
-    getDiffFilesBetweenCommits: ReturnType<typeof vi.fn>;
+    getDiffEntries: ReturnType<typeof vi.fn>;
+    getDiffEntriesBetweenCommits: ReturnType<typeof vi.fn>;
+    getDiffEntriesSince: ReturnType<typeof vi.fn>;
+    getStagedEntries: ReturnType<typeof vi.fn>;
+    checkoutIndex: ReturnType<typeof vi.fn>;
+    getUntrackedFiles: ReturnType<typeof vi.fn>;
+    getRepoFiles: ReturnType<typeof vi.fn>;
+    getTreeBlobs: ReturnType<typeof vi.fn>;
+    isCommitAvailable: ReturnType<typeof vi.fn>;
+    isAncestor: ReturnType<typeof vi.fn>;
+    getMergeBase: ReturnType<typeof vi.fn>;
   }>;
   state?: Partial<{
     computeHashes: ReturnType<typeof vi.fn>;
+    computeIndexHashes: ReturnType<typeof vi.fn>;
     loadState: ReturnType<typeof vi.fn>;
     saveState: ReturnType<typeof vi.fn>;
+    migrateState: ReturnType<typeof vi.fn>;
+    recordFailure: ReturnType<typeof vi.fn>;
     findChangedFiles: ReturnType<typeof vi.fn>;
+    readStateFile: ReturnType<typeof vi.fn>;
+    readStateFileLocked: ReturnType<typeof vi.fn>;
+    removeStates: ReturnType<typeof vi.fn>;
   }>;
   executor?: Partial<{
     executeAll: ReturnType<typeof vi.fn>;
     printFailures: ReturnType<typeof vi.fn>;
+    terminateRunningCommands: ReturnType<typeof vi.fn>;
   }>;
 } = {}) {
   const git = {
     getGitRoot: vi.fn().mockResolvedValue('/repo'),
+    getGitCommonDir: vi.fn().mockResolvedValue('/repo/.git'),
+    getGitHooksDir: vi.fn().mockResolvedValue('/repo/.git/hooks'),
     getHeadSha: vi.fn().mockResolvedValue('headSha'),
-    getDiffFiles: vi.fn().mockResolvedValue([]),
-    getDiffFilesBetweenCommits: vi.fn().mockResolvedValue([]),
+    getDiffEntries: vi.fn().mockResolvedValue([]),
+    getDiffEntriesBetweenCommits: vi.fn().mockResolvedValue([]),
+    getDiffEntriesSince: vi.fn().mockResolvedValue([]),
+    getStagedEntries: vi.fn().mockResolvedValue([]),
+    checkoutIndex: vi.fn().mockResolvedValue(undefined),
+    getUntrackedFiles: vi.fn().mockResolvedValue([]),
+    getRepoFiles: vi.fn().mockResolvedValue([]),
+    getTreeBlobs: vi.fn().mockResolvedValue({}),
+    isCommitAvailable: vi.fn().mockResolvedValue(true),
+    isAncestor: vi.fn().mockResolvedValue(true),
+    getMergeBase: vi.fn().mockResolvedValue(null),
     ...overrides.git,
   };
   const state = {
     computeHashes: vi.fn().mockResolvedValue({}),
+    computeIndexHashes: vi.fn().mockResolvedValue({}),
     loadState: vi.fn().mockReturnValue(null),
     saveState: vi.fn().mockResolvedValue(undefined),
+    migrateState: vi.fn().mockResolvedValue(undefined),
+    recordFailure: vi.fn().mockResolvedValue(undefined),
     findChangedFiles: vi.fn().mockReturnValue([]),
+    readStateFile: vi.fn().mockReturnValue({}),
+    readStateFileLocked: vi.fn().mockResolvedValue({}),
+    removeStates: vi.fn().mockResolvedValue([]),
     ...overrides.state,
   };
   const executor = {
     executeAll: vi.fn().mockResolvedValue([]),
     printFailures: vi.fn(),
+    terminateRunningCommands: vi.fn().mockResolvedValue(undefined),
     ...overrides.executor,
   };
   return { git, state, executor };
 }
 
+// Diff entries of files git reports as modified
+function modifiedEntries(...paths: string[]): DiffEntry[] {
+  return paths.map((path) => ({ status: 'modified', path }));
+}
+
+// Allow a second CLI run within the same test
+function prepareNextRun(): void {
+  vi.resetModules();
+  exitSpy.mockRestore();
+  spyOnExit();
+}
+
+// Feed a Claude Code hook payload to readStdin() instead of a TTY
+function mockStdin(payload: unknown): void {
+  Object.defineProperty(process.stdin, 'isTTY', { value: false, configurable: true, writable: true });
+  const raw = Buffer.from(JSON.stringify(payload));
+  stdinSpy = vi.spyOn(process.stdin, 'on').mockImplementation(((event: string, listener: (chunk?: Buffer) => void) => {
+    if (event === 'data') listener(raw);
+    if (event === 'end') listener();
+    return process.stdin;
+  }) as any);
+}
+
 async function runCli(
   argv: string[],
   mocks: ReturnType<typeof createMocks>,
 ): Promise<void> {
   vi.doMock('../git.js', () => mocks.git);
-  vi.doMock('../state.js', () => mocks.state);
-  vi.doMock('../executor.js', () => mocks.executor);
+  // Pure helpers (state keys, command graph, formatting) keep their real implementation
+  vi.doMock('../state.js', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../state.js')>()),
+    ...mocks.state,
+  }));
+  vi.doMock('../executor.js', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../executor.js')>()),
+    ...mocks.executor,
+  }));
 
   process.argv = argv;
 
@@ -136,7 +213,7 @@ async function runCli(
 describe('578d7cc — lastSuccessAt timestamp saved after successful run', () => {
   it('includes a valid ISO-8601 lastSuccessAt timestamp in the saved state', async () => {
     const mocks = createMocks({
-      git: { getDiffFiles: vi.fn().mockResolvedValue(['src/a.ts']) },
+      git: { getDiffEntries: vi.fn().mockResolvedValue(modifiedEntries('src/a.ts')) },
       state: {
         loadState: vi.fn().mockReturnValue({ headSha: 'prevSha', divergedFileHashes: { 'src/a.ts': 'oldhash' } }),
         computeHashes: vi.fn().mockResolvedValue({ 'src/a.ts': 'newhash' }),
@@ -158,7 +235,7 @@ describe('578d7cc — lastSuccessAt timestamp saved after successful run', () =>
 
   it('does not save state when at least one command fails', async () => {
     const mocks = createMocks({
-      git: { getDiffFiles: vi.fn().mockResolvedValue(['src/a.ts']) },
+      git: { getDiffEntries: vi.fn().mockResolvedValue(modifiedEntries('src/a.ts')) },
       state: {
         loadState: vi.fn().mockReturnValue({ headSha: 'prevSha', divergedFileHashes: {} }),
         computeHashes: vi.fn().mockResolvedValue({ 'src/a.ts': 'hash1' }),
@@ -183,7 +260,7 @@ describe('578d7cc — lastSuccessAt timestamp saved after successful run', () =>
 describe('19f1736 — first run executes commands immediately', () => {
   it('calls findChangedFiles with an empty previous snapshot when no state file exists', async () => {
     const mocks = createMocks({
-      git: { getDiffFiles: vi.fn().mockResolvedValue(['src/a.ts']) },
+      git: { getDiffEntries: vi.fn().mockResolvedValue(modifiedEntries('src/a.ts')) },
       state: {
         loadState: vi.fn().mockReturnValue(null),
         computeHashes: vi.fn().mockResolvedValue({ 'src/a.ts': 'hash1' }),
@@ -197,7 +274,7 @@ describe('19f1736 — first run executes commands immediately', () => {
 
   it('executes commands on first run when matching files are present in the diff', async () => {
     const mocks = createMocks({
-      git: { getDiffFiles: vi.fn().mockResolvedValue(['src/a.ts']) },
+      git: { getDiffEntries: vi.fn().mockResolvedValue(modifiedEntries('src/a.ts')) },
       state: {
         loadState: vi.fn().mockReturnValue(null),
         computeHashes: vi.fn().mockResolvedValue({ 'src/a.ts': 'hash1' }),
@@ -216,7 +293,7 @@ describe('19f1736 — first run executes commands immediately', () => {
 
   it('exits cleanly without executing commands when no matching files are in the diff on first run', async () => {
     const mocks = createMocks({
-      git: { getDiffFiles: vi.fn().mockResolvedValue([]) },
+      git: { getDiffEntries: vi.fn().mockResolvedValue([]) },
       state: {
         loadState: vi.fn().mockReturnValue(null),
         computeHashes: vi.fn().mockResolvedValue({}),
@@ -240,7 +317,7 @@ describe('initialize state for untracked patterns with no current changes', () =
     const mocks = createMocks({
       git: {
         getHeadSha: vi.fn().mockResolvedValue('currentSha'),
-        getDiffFiles: vi.fn().mockResolvedValue([]),
+        getDiffEntries: vi.fn().mockResolvedValue([]),
       },
       state: {
         loadState: vi.fn().mockReturnValue(null),
@@ -252,8 +329,8 @@ describe('initialize state for untracked patterns with no current changes', () =
     await runCli(BASE_ARGV, mocks);
 
     expect(mocks.state.saveState).toHaveBeenCalledOnce();
-    const [, pattern, savedState] = mocks.state.saveState.mock.calls[0];
-    expect(pattern).toBe('src/**/*.ts');
+    const [, key, savedState] = mocks.state.saveState.mock.calls[0];
+    expect(key).toMatch(/^src\/\*\*\/\*\.ts#[0-9a-f]{12}$/);
     expect(savedState.headSha).toBe('currentSha');
     expect(savedState.divergedFileHashes).toEqual({});
     expect(typeof savedState.lastSuccessAt).toBe('string');
@@ -265,7 +342,7 @@ describe('initialize state for untracked patterns with no current changes', () =
     const mocks = createMocks({
       git: {
         getHeadSha: vi.fn().mockResolvedValue('sameSha'),
-        getDiffFiles: vi.fn().mockResolvedValue([]),
+        getDiffEntries: vi.fn().mockResolvedValue([]),
       },
       state: {
         loadState: vi.fn().mockReturnValue({ headSha: 'sameSha', divergedFileHashes: {} }),
@@ -286,12 +363,12 @@ describe('initialize state for untracked patterns with no current changes', () =
 // ---------------------------------------------------------------------------
 
 describe('d5dd228 — inter-commit diff files included when HEAD has moved', () => {
-  it('calls getDiffFilesBetweenCommits with old and new SHAs when HEAD has changed', async () => {
+  it('calls getDiffEntriesBetweenCommits with old and new SHAs when HEAD has changed', async () => {
     const mocks = createMocks({
       git: {
         getHeadSha: vi.fn().mockResolvedValue('newSha'),
-        getDiffFiles: vi.fn().mockResolvedValue([]),
-        getDiffFilesBetweenCommits: vi.fn().mockResolvedValue([]),
+        getDiffEntries: vi.fn().mockResolvedValue([]),
+        getDiffEntriesBetweenCommits: vi.fn().mockResolvedValue([]),
       },
       state: {
         loadState: vi.fn().mockReturnValue({ headSha: 'oldSha', divergedFileHashes: {} }),
@@ -302,14 +379,14 @@ describe('d5dd228 — inter-commit diff files included when HEAD has moved', ()
 
     await runCli(BASE_ARGV, mocks);
 
-    expect(mocks.git.getDiffFilesBetweenCommits).toHaveBeenCalledWith('oldSha', 'newSha');
+    expect(mocks.git.getDiffEntriesBetweenCommits).toHaveBeenCalledWith('oldSha', 'newSha');
   });
 
-  it('does not call getDiffFilesBetweenCommits when HEAD SHA is unchanged', async () => {
+  it('does not call getDiffEntriesBetweenCommits when HEAD SHA is unchanged', async () => {
     const mocks = createMocks({
       git: {
         getHeadSha: vi.fn().mockResolvedValue('sameSha'),
-        getDiffFiles: vi.fn().mockResolvedValue([]),
+        getDiffEntries: vi.fn().mockResolvedValue([]),
       },
       state: {
         loadState: vi.fn().mockReturnValue({ headSha: 'sameSha', divergedFileHashes: {} }),
@@ -320,14 +397,14 @@ describe('d5dd228 — inter-commit diff files included when HEAD has moved', ()
 
     await runCli(BASE_ARGV, mocks);
 
-    expect(mocks.git.getDiffFilesBetweenCommits).not.toHaveBeenCalled();
+    expect(mocks.git.getDiffEntriesBetweenCommits).not.toHaveBeenCalled();
   });
 
-  it('does not call getDiffFilesBetweenCommits when there is no previous state', async () => {
+  it('does not call getDiffEntriesBetweenCommits when there is no previous state', async () => {
     const mocks = createMocks({
       git: {
         getHeadSha: vi.fn().mockResolvedValue('currentSha'),
-        getDiffFiles: vi.fn().mockResolvedValue([]),
+        getDiffEntries: vi.fn().mockResolvedValue([]),
       },
       state: {
         loadState: vi.fn().mockReturnValue(null),
@@ -338,7 +415,7 @@ describe('d5dd228 — inter-commit diff files included when HEAD has moved', ()
 
     await runCli(BASE_ARGV, mocks);
 
-    expect(mocks.git.getDiffFilesBetweenCommits).not.toHaveBeenCalled();
+    expect(mocks.git.getDiffEntriesBetweenCommits).not.toHaveBeenCalled();
   });
 
   it('adds matching commit diff files to the hashes computation', async () => {
@@ -346,8 +423,8 @@ describe('d5dd228 — inter-commit diff files included when HEAD has moved', ()
     const mocks = createMocks({
       git: {
         getHeadSha: vi.fn().mockResolvedValue('newSha'),
-        getDiffFiles: vi.fn().mockResolvedValue([]),
-        getDiffFilesBetweenCommits: vi.fn().mockResolvedValue(['src/a.ts', 'docs/README.md']),
+        getDiffEntries: vi.fn().mockResolvedValue([]),
+        getDiffEntriesBetweenCommits: vi.fn().mockResolvedValue(modifiedEntries('src/a.ts', 'docs/README.md')),
       },
       state: {
         loadState: vi.fn().mockReturnValue({ headSha: 'oldSha', divergedFileHashes: {} }),
@@ -371,8 +448,8 @@ describe('d5dd228 — inter-commit diff files included when HEAD has moved', ()
     const mocks = createMocks({
       git: {
         getHeadSha: vi.fn().mockResolvedValue('newSha'),
-        getDiffFiles: vi.fn().mockResolvedValue(['src/a.ts']),
-        getDiffFilesBetweenCommits: vi.fn().mockResolvedValue(['src/a.ts', 'src/b.ts']),
+        getDiffEntries: vi.fn().mockResolvedValue(modifiedEntries('src/a.ts')),
+        getDiffEntriesBetweenCommits: vi.fn().mockResolvedValue(modifiedEntries('src/a.ts', 'src/b.ts')),
       },
       state: {
         loadState: vi.fn().mockReturnValue({ headSha: 'oldSha', divergedFileHashes: {} }),
@@ -391,3 +468,1714 @@ describe('d5dd228 — inter-commit diff files included when HEAD has moved', ()
     expect(count).toBe(1);
   });
 });
+
+// ---------------------------------------------------------------------------
+// --since: compare against a base ref, e.g. on CI
+// ---------------------------------------------------------------------------
+
+describe('--since', () => {
+  const sinceMocks = (getDiffEntriesSince: ReturnType<typeof vi.fn>) => createMocks({
+    git: { getDiffEntriesSince },
+    state: {
+      computeHashes: vi.fn(async (_root: string, files: string[]) => Object.fromEntries(files.map((f) => [f, 'hash']))),
+      findChangedFiles: vi.fn((previous: Record<string, string>, current: Record<string, string>) =>
+        Object.keys(current).filter((file) => previous[file] !== current[file])),
+    },
+    executor: {
+      executeAll: vi.fn().mockResolvedValue([{ command: 'echo ok', exitCode: 0, stdout: '', stderr: '' }]),
+    },
+  });
+
+  it('runs on the matching files changed since HEAD forked from the ref, on a clean checkout', async () => {
+    const mocks = sinceMocks(vi.fn().mockResolvedValue(modifiedEntries('src/a.ts', 'docs/README.md')));
+
+    await runCli([...BASE_ARGV, '--since', 'origin/main'], mocks);
+
+    expect(mocks.git.getDiffEntriesSince).toHaveBeenCalledWith('origin/main');
+    expect(mocks.state.computeHashes.mock.calls[0][1]).toEqual(['src/a.ts']);
+    expect(mocks.executor.executeAll.mock.calls[0][2].ON_CHANGES_RUN_CHANGED_FILES).toBe('src/a.ts');
+    expect(capturedExitCode).toBe(0);
+  });
+
+  it('does not run again on files that already passed, when the state persisted', async () => {
+    const mocks = sinceMocks(vi.fn().mockResolvedValue(modifiedEntries('src/a.ts')));
+    mocks.state.loadState.mockReturnValue({ headSha: 'headSha', divergedFileHashes: { 'src/a.ts': 'hash' } });
+
+    await runCli([...BASE_ARGV, '--since', 'origin/main'], mocks);
+
+    expect(mocks.executor.executeAll).not.toHaveBeenCalled();
+  });
+
+  it('fails with a hint when the ref cannot be compared', async () => {
+    const mocks = sinceMocks(vi.fn().mockRejectedValue(new Error('fatal: no merge base')));
+
+    await runCli([...BASE_ARGV, '--since', 'origin/main'], mocks);
+
+    const output = stderrSpy.mock.calls.map((c) => String(c[0])).join('');
+    expect(output).toContain('Could not compare HEAD with "origin/main" (unknown ref, or a shallow clone');
+    expect(capturedExitCode).toBe(1);
+  });
+
+  it('is not used by default', async () => {
+    const mocks = sinceMocks(vi.fn().mockResolvedValue(modifiedEntries('src/a.ts')));
+
+    await runCli(BASE_ARGV, mocks);
+
+    expect(mocks.git.getDiffEntriesSince).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// --staged: check what is about to be committed
+// ---------------------------------------------------------------------------
+
+describe('--staged', () => {
+  it('runs on the staged content of staged files only, checked out to a temporary directory', async () => {
+    let checkoutDir = '';
+    const mocks = createMocks({
+      git: {
+        getStagedEntries: vi.fn().mockResolvedValue(modifiedEntries('src/a.ts', 'docs/README.md')),
+        getDiffEntries: vi.fn().mockResolvedValue(modifiedEntries('src/unstaged.ts')),
+        getUntrackedFiles: vi.fn().mockResolvedValue(['src/new.ts']),
+        checkoutIndex: vi.fn(async (_root: string, _files: string[], dir: string) => {
+          writeFileSync(join(dir, 'a.ts'), 'staged');
+        }),
+      },
+      state: {
+        computeIndexHashes: vi.fn().mockResolvedValue({ 'src/a.ts': 'stagedHash' }),
+        findChangedFiles: vi.fn().mockReturnValue(['src/a.ts']),
+      },
+      executor: {
+        executeAll: vi.fn(async (_commands: unknown, _timeout: number, vars: Record<string, string>) => {
+          checkoutDir = vars.STAGED_CHECKOUT_DIR;
+          expect(readFileSync(join(checkoutDir, 'a.ts'), 'utf-8')).toBe('staged');
+          return [{ command: 'echo ok', exitCode: 0, stdout: '', stderr: '' }];
+        }),
+      },
+    });
+
+    await runCli([...BASE_ARGV, '--staged'], mocks);
+
+    expect(mocks.git.getDiffEntries).not.toHaveBeenCalled();
+    expect(mocks.git.getUntrackedFiles).not.toHaveBeenCalled();
+    expect(mocks.state.computeIndexHashes).toHaveBeenCalledWith('/repo', ['src/a.ts']);
+    expect(mocks.state.computeHashes).not.toHaveBeenCalled();
+    expect(mocks.git.checkoutIndex).toHaveBeenCalledWith('/repo', ['src/a.ts'], checkoutDir);
+    expect(mocks.state.saveState.mock.calls[0][2].divergedFileHashes).toEqual({ 'src/a.ts': 'stagedHash' });
+    expect(() => readdirSync(checkoutDir)).toThrow();
+    expect(capturedExitCode).toBe(0);
+  });
+
+  it('shows where the staged content would be checked out on a dry run', async () => {
+    const mocks = createMocks({
+      git: { getStagedEntries: vi.fn().mockResolvedValue(modifiedEntries('src/a.ts')) },
+      state: {
+        computeIndexHashes: vi.fn().mockResolvedValue({ 'src/a.ts': 'stagedHash' }),
+        findChangedFiles: vi.fn().mockReturnValue(['src/a.ts']),
+      },
+    });
+
+    await runCli(['node', 'delta-gate', '--on', 'src/**/*.ts', '--exec', 'eslint {{STAGED_CHECKOUT_DIR}}/src', '--staged', '--dry-run'], mocks);
+
+    expect(mocks.git.checkoutIndex).not.toHaveBeenCalled();
+    expect(stderrSpy.mock.calls.map((c) => String(c[0])).join('')).toContain(`  eslint ${join(tmpdir(), 'delta-gate-staged-XXXXXX')}/src\n`);
+  });
+
+  it('cannot be combined with --since', async () => {
+    await runCli([...BASE_ARGV, '--staged', '--since', 'origin/main'], createMocks());
+
+    expect(capturedExitCode).toBe(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Rewritten history: the previous HEAD is no longer an ancestor, or no longer exists
+// ---------------------------------------------------------------------------
+
+describe('rewritten history', () => {
+  const historyMocks = (git: Parameters<typeof createMocks>[0]['git']) => createMocks({
+    git: {
+      getHeadSha: vi.fn().mockResolvedValue('newSha'),
+      getRepoFiles: vi.fn().mockResolvedValue(['src/a.ts', 'src/b.ts', 'docs/README.md']),
+      ...git,
+    },
+    state: {
+      loadState: vi.fn().mockReturnValue({ headSha: 'oldSha', divergedFileHashes: {} }),
+      computeHashes: vi.fn().mockResolvedValue({ 'src/a.ts': 'hash1' }),
+      findChangedFiles: vi.fn().mockReturnValue(['src/a.ts']),
+    },
+    executor: {
+      executeAll: vi.fn().mockResolvedValue([{ command: 'echo ok', exitCode: 0, stdout: '', stderr: '' }]),
+    },
+  });
+
+  const stderrOutput = () => stderrSpy.mock.calls.map((c) => String(c[0])).join('');
+
+  it('compares a previous HEAD that is no longer an ancestor through the merge-base', async () => {
+    const mocks = historyMocks({
+      isAncestor: vi.fn().mockResolvedValue(false),
+      getMergeBase: vi.fn().mockResolvedValue('baseSha'),
+      getDiffEntriesBetweenCommits: vi.fn(async (from: string, to: string) => modifiedEntries(to === 'oldSha' ? 'src/a.ts' : 'src/b.ts')),
+    });
+
+    await runCli(BASE_ARGV, mocks);
+
+    expect(mocks.git.getDiffEntriesBetweenCommits).toHaveBeenCalledWith('baseSha', 'oldSha');
+    expect(mocks.git.getDiffEntriesBetweenCommits).toHaveBeenCalledWith('baseSha', 'newSha');
+    expect(mocks.state.computeHashes.mock.calls[0][1]).toEqual(['src/b.ts', 'src/a.ts']);
+    expect(stderrOutput()).toContain('previous HEAD oldSha is no longer an ancestor of HEAD (amend, rebase or reset), compared through their merge-base baseSha');
+  });
+
+  it('re-checks every matching file when the previous HEAD no longer exists', async () => {
+    const mocks = historyMocks({ isCommitAvailable: vi.fn().mockResolvedValue(false) });
+    const reportPath = join(tmpdir(), `delta-gate-history-${process.pid}.json`);
+
+    await runCli([...BASE_ARGV, '--report', `json:${reportPath}`], mocks);
+
+    expect(mocks.git.getDiffEntriesBetweenCommits).not.toHaveBeenCalled();
+    expect(mocks.state.computeHashes.mock.calls[0][1]).toEqual(['src/a.ts', 'src/b.ts']);
+    expect(stderrOutput()).toContain('previous HEAD oldSha cannot be compared with HEAD anymore');
+    expect(JSON.parse(readFileSync(reportPath, 'utf-8')).watchers[0].historyFallback).toEqual({ kind: 'full' });
+    rmSync(reportPath);
+  });
+
+  it('re-checks every matching file when git fails to diff the commits', async () => {
+    const mocks = historyMocks({ getDiffEntriesBetweenCommits: vi.fn().mockRejectedValue(new Error('bad object')) });
+
+    await runCli(BASE_ARGV, mocks);
+
+    expect(mocks.state.computeHashes.mock.calls[0][1]).toEqual(['src/a.ts', 'src/b.ts']);
+  });
+
+  it('does not re-check every file again on the run following a full re-check', async () => {
+    const mocks = historyMocks({
+      isCommitAvailable: vi.fn().mockResolvedValue(false),
+      getDiffEntries: vi.fn().mockResolvedValue(modifiedEntries('src/b.ts')),
+    });
+    mocks.state.computeHashes.mockResolvedValue({ 'src/a.ts': 'hash1', 'src/b.ts': 'hash2' });
+
+    await runCli(BASE_ARGV, mocks);
+
+    // src/a.ts is committed at HEAD: it was re-checked, but is no longer a diverged file
+    const saved = mocks.state.saveState.mock.calls[0][2];
+    expect(saved).toMatchObject({ headSha: 'newSha', divergedFileHashes: { 'src/b.ts': 'hash2' } });
+    expect(saved.divergedFileHashes).not.toHaveProperty('src/a.ts');
+
+    prepareNextRun();
+    const next = createMocks({
+      git: { getHeadSha: vi.fn().mockResolvedValue('newSha'), getDiffEntries: vi.fn().mockResolvedValue(modifiedEntries('src/b.ts')) },
+      state: {
+        loadState: vi.fn().mockReturnValue(saved),
+        computeHashes: vi.fn().mockResolvedValue({ 'src/b.ts': 'hash2' }),
+        findChangedFiles: vi.fn((previous: Record<string, string>, current: Record<string, string>) =>
+          [...new Set([...Object.keys(current), ...Object.keys(previous)])].filter((file) => previous[file] !== current[file])),
+      },
+    });
+    await runCli(BASE_ARGV, next);
+
+    expect(next.executor.executeAll).not.toHaveBeenCalled();
+    expect(capturedExitCode).toBe(0);
+  });
+
+  it('says nothing when the previous HEAD is an ancestor', async () => {
+    const mocks = historyMocks({ getDiffEntriesBetweenCommits: vi.fn().mockResolvedValue(modifiedEntries('src/a.ts')) });
+
+    await runCli(BASE_ARGV, mocks);
+
+    expect(mocks.git.getMergeBase).not.toHaveBeenCalled();
+    expect(stderrOutput()).not.toContain('previous HEAD');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Renamed files: git rename pairs and the per-change template variables
+// ---------------------------------------------------------------------------
+
+describe('renamed files', () => {
+  const passing = () => ({ executeAll: vi.fn().mockResolvedValue([{ command: 'echo ok', exitCode: 0, stdout: '', stderr: '' }]) });
+
+  it('splits the changed files into added, modified, deleted and renamed template variables', async () => {
+    const mocks = createMocks({
+      git: {
+        getDiffEntries: vi.fn().mockResolvedValue([
+          { status: 'renamed', from: 'src/old.ts', path: 'src/new.ts' },
+          { status: 'modified', path: 'src/a.ts' },
+          { status: 'deleted', path: 'src/gone.ts' },
+          { status: 'added', path: 'src/added.ts' },
+        ]),
+      },
+      state: {
+        loadState: vi.fn().mockReturnValue({
+          headSha: 'headSha',
+          divergedFileHashes: { 'src/old.ts': 'h1', 'src/a.ts': 'h2', 'src/gone.ts': 'h3' },
+        }),
+        computeHashes: vi.fn().mockResolvedValue({ 'src/new.ts': 'h1', 'src/a.ts': 'changed', 'src/added.ts': 'h4' }),
+        findChangedFiles: vi.fn().mockReturnValue(['src/new.ts', 'src/a.ts', 'src/added.ts', 'src/old.ts', 'src/gone.ts']),
+      },
+      executor: passing(),
+    });
+    const reportPath = join(tmpdir(), `delta-gate-renames-${process.pid}.json`);
+
+    await runCli([...BASE_ARGV, '--files-separator', ' ', '--report', `json:${reportPath}`], mocks);
+
+    expect(mocks.executor.executeAll.mock.calls[0][2]).toMatchObject({
+      ON_CHANGES_RUN_CHANGED_FILES: 'src/new.ts src/a.ts src/added.ts src/old.ts src/gone.ts',
+      ON_CHANGES_RUN_ADDED_FILES: 'src/added.ts',
+      ON_CHANGES_RUN_MODIFIED_FILES: 'src/a.ts',
+      ON_CHANGES_RUN_DELETED_FILES: 'src/gone.ts',
+      ON_CHANGES_RUN_RENAMED_FILES: 'src/new.ts',
+      ON_CHANGES_RUN_RENAMED_FROM_FILES: 'src/old.ts',
+    });
+    expect(JSON.parse(readFileSync(reportPath, 'utf-8')).watchers[0].renamedFiles).toEqual([{ from: 'src/old.ts', to: 'src/new.ts' }]);
+    rmSync(reportPath);
+  });
+
+  it('pairs files renamed by the commits since the previous run', async () => {
+    const mocks = createMocks({
+      git: {
+        getHeadSha: vi.fn().mockResolvedValue('newSha'),
+        getDiffEntriesBetweenCommits: vi.fn().mockResolvedValue([{ status: 'renamed', from: 'lib/util.ts', path: 'src/util.ts' }]),
+      },
+      state: {
+        loadState: vi.fn().mockReturnValue({ headSha: 'oldSha', divergedFileHashes: {} }),
+        computeHashes: vi.fn().mockResolvedValue({ 'src/util.ts': 'h1' }),
+        findChangedFiles: vi.fn().mockReturnValue(['src/util.ts']),
+      },
+      executor: passing(),
+    });
+
+    await runCli(BASE_ARGV, mocks);
+
+    expect(mocks.executor.executeAll.mock.calls[0][2]).toMatchObject({
+      ON_CHANGES_RUN_ADDED_FILES: '',
+      ON_CHANGES_RUN_RENAMED_FILES: 'src/util.ts',
+      ON_CHANGES_RUN_RENAMED_FROM_FILES: 'lib/util.ts',
+    });
+  });
+
+  it('counts a file git no longer reports as reverted only when it is still there', async () => {
+    // src/untracked.ts was never committed, and was removed since the last success
+    const mocks = createMocks({
+      git: { getTreeBlobs: vi.fn().mockResolvedValue({ 'src/reverted.ts': 'blob1' }) },
+      state: {
+        loadState: vi.fn().mockReturnValue({
+          headSha: 'headSha',
+          divergedFileHashes: { 'src/reverted.ts': 'h1', 'src/untracked.ts': 'h2' },
+        }),
+        findChangedFiles: vi.fn().mockReturnValue(['src/reverted.ts', 'src/untracked.ts']),
+      },
+      executor: passing(),
+    });
+
+    await runCli([...BASE_ARGV, '--files-separator', ' '], mocks);
+
+    expect(mocks.git.getTreeBlobs).toHaveBeenCalledWith('/repo', 'headSha');
+    expect(mocks.executor.executeAll.mock.calls[0][2]).toMatchObject({
+      ON_CHANGES_RUN_MODIFIED_FILES: 'src/reverted.ts',
+      ON_CHANGES_RUN_DELETED_FILES: 'src/untracked.ts',
+    });
+  });
+
+  it('counts the files the gate did not check yet as modified when the gate changed', async () => {
+    const mocks = createMocks({
+      git: { getDiffEntries: vi.fn().mockResolvedValue(modifiedEntries('src/a.ts')) },
+      state: {
+        loadState: vi.fn().mockReturnValue({ headSha: 'headSha', divergedFileHashes: { 'src/a.ts': 'h1' }, fingerprint: 'old' }),
+        computeHashes: vi.fn().mockResolvedValue({ 'src/a.ts': 'h1' }),
+      },
+      executor: passing(),
+    });
+
+    await runCli(BASE_ARGV, mocks);
+
+    expect(mocks.executor.executeAll.mock.calls[0][2].ON_CHANGES_RUN_MODIFIED_FILES).toBe('src/a.ts');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Config file mode: several watchers in a single invocation
+// ---------------------------------------------------------------------------
+
+describe('config file mode', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'delta-gate-cli-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeConfig(config: unknown): string {
+    const path = join(dir, 'delta-gate.config.json');
+    writeFileSync(path, JSON.stringify(config));
+    return path;
+  }
+
+  it('runs every watcher declared in the config file', async () => {
+    const configPath = writeConfig({
+      watchers: [
+        { on: 'src/**/*.ts', exec: ['npm run lint'] },
+        { on: 'backend/**/*.kt', exec: ['./gradlew build'] },
+      ],
+    });
+    const mocks = createMocks({
+      git: { getDiffEntries: vi.fn().mockResolvedValue(modifiedEntries('src/a.ts', 'backend/App.kt')) },
+      state: {
+        computeHashes: vi.fn(async (_root: string, files: string[]) =>
+          Object.fromEntries(files.map((f) => [f, 'hash']))),
+        findChangedFiles: vi.fn((_prev: unknown, current: Record<string, string>) => Object.keys(current)),
+      },
+      executor: {
+        executeAll: vi.fn(async (commands: string[]) =>
+          commands.map((command) => ({ command, exitCode: 0, stdout: '', stderr: '' }))),
+      },
+    });
+
+    await runCli(['node', 'delta-gate', '--config', configPath], mocks);
+
+    expect(mocks.executor.executeAll).toHaveBeenCalledTimes(2);
+    const executed = mocks.executor.executeAll.mock.calls.map((call) => call[0]);
+    expect(executed).toContainEqual(['npm run lint']);
+    expect(executed).toContainEqual(['./gradlew build']);
+    expect(capturedExitCode).toBe(0);
+  });
+
+  it('exits with 2 when any watcher fails', async () => {
+    const configPath = writeConfig({
+      watchers: [
+        { on: 'src/**/*.ts', exec: ['npm run lint'] },
+        { on: 'backend/**/*.kt', exec: ['./gradlew build'] },
+      ],
+    });
+    const mocks = createMocks({
+      git: { getDiffEntries: vi.fn().mockResolvedValue(modifiedEntries('src/a.ts', 'backend/App.kt')) },
+      state: {
+        computeHashes: vi.fn(async (_root: string, files: string[]) =>
+          Object.fromEntries(files.map((f) => [f, 'hash']))),
+        findChangedFiles: vi.fn((_prev: unknown, current: Record<string, string>) => Object.keys(current)),
+      },
+      executor: {
+        executeAll: vi.fn(async (commands: string[]) =>
+          commands.map((command) => ({
+            command,
+            exitCode: command === './gradlew build' ? 1 : 0,
+            stdout: '',
+            stderr: '',
+          }))),
+      },
+    });
+
+    await runCli(['node', 'delta-gate', '--config', configPath], mocks);
+
+    expect(capturedExitCode).toBe(2);
+  });
+
+  it('shares one concurrency limit between the commands of every watcher', async () => {
+    const configPath = writeConfig({
+      watchers: [
+        { on: 'src/**/*.ts', exec: ['npm run lint'] },
+        { on: 'backend/**/*.kt', exec: ['./gradlew build'] },
+      ],
+    });
+    const mocks = createMocks({
+      git: { getDiffEntries: vi.fn().mockResolvedValue(modifiedEntries('src/a.ts', 'backend/App.kt')) },
+      state: {
+        computeHashes: vi.fn(async (_root: string, files: string[]) =>
+          Object.fromEntries(files.map((f) => [f, 'hash']))),
+        findChangedFiles: vi.fn((_prev: unknown, current: Record<string, string>) => Object.keys(current)),
+      },
+    });
+
+    await runCli(['node', 'delta-gate', '--config', configPath, '--max-parallel', '2'], mocks);
+
+    const [first, second] = mocks.executor.executeAll.mock.calls.map((call) => call[4].limiter);
+    expect(first).toBeDefined();
+    expect(first).toBe(second);
+  });
+
+  it('exits with 1 on an invalid --max-parallel', async () => {
+    const mocks = createMocks();
+
+    await runCli([...BASE_ARGV, '--max-parallel', '0'], mocks);
+
+    expect(capturedExitCode).toBe(1);
+    expect(mocks.git.getDiffEntries).not.toHaveBeenCalled();
+  });
+
+  it('uses the config stateFile and per-watcher overrides', async () => {
+    const configPath = writeConfig({
+      stateFile: '.claude/shared.json',
+      watchers: [
+        { on: 'src/**/*.ts', exec: ['npm run lint'] },
+        { on: 'backend/**/*.kt', exec: ['./gradlew build'], stateFile: '.claude/backend.json' },
+      ],
+    });
+    const mocks = createMocks();
+
+    await runCli(['node', 'delta-gate', '--config', configPath], mocks);
+
+    const statePaths = mocks.state.loadState.mock.calls.map((call) => call[0]);
+    expect(statePaths).toContain(join('/repo', '.claude/shared.json'));
+    expect(statePaths).toContain(join('/repo', '.claude/backend.json'));
+  });
+
+  it('exits with 1 and reports validation errors for an invalid config', async () => {
+    const configPath = writeConfig({ watchers: [{ on: 'src/**/*.ts' }] });
+    const mocks = createMocks();
+
+    await runCli(['node', 'delta-gate', '--config', configPath], mocks);
+
+    const output = stderrSpy.mock.calls.map((c) => String(c[0])).join('');
+    expect(output).toContain('watchers[0].exec');
+    expect(capturedExitCode).toBe(1);
+  });
+
+  it('exits with 1 when neither --on nor a config file is available', async () => {
+    const mocks = createMocks({ git: { getGitRoot: vi.fn().mockResolvedValue(dir) } });
+
+    await runCli(['node', 'delta-gate'], mocks);
+
+    const output = stderrSpy.mock.calls.map((c) => String(c[0])).join('');
+    expect(output).toContain('no watcher to run');
+    expect(capturedExitCode).toBe(1);
+  });
+
+  it('discovers the config file at the git root', async () => {
+    writeConfig({ watchers: [{ on: 'src/**/*.ts', exec: ['npm run lint'] }] });
+    const mocks = createMocks({ git: { getGitRoot: vi.fn().mockResolvedValue(dir) } });
+
+    await runCli(['node', 'delta-gate'], mocks);
+
+    expect(mocks.state.loadState).toHaveBeenCalledWith(
+      join(dir, '.claude/delta-gate.state.local.json'),
+      expect.stringMatching(/^src\/\*\*\/\*\.ts#/),
+    );
+    expect(capturedExitCode).toBe(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Claude Code hook payload consumed from stdin
+// ---------------------------------------------------------------------------
+
+describe('hook payload on stdin', () => {
+  const failingMocks = (lastFailure?: { signature: string; at: string }) => createMocks({
+    git: { getDiffEntries: vi.fn().mockResolvedValue(modifiedEntries('src/a.ts')) },
+    state: {
+      loadState: vi.fn().mockReturnValue({ headSha: 'headSha', divergedFileHashes: {}, lastFailure }),
+      computeHashes: vi.fn().mockResolvedValue({ 'src/a.ts': 'hash1' }),
+      findChangedFiles: vi.fn().mockReturnValue(['src/a.ts']),
+    },
+    executor: {
+      executeAll: vi.fn().mockResolvedValue([{ command: 'echo ok', exitCode: 1, stdout: 'took 12ms', stderr: 'error' }]),
+    },
+  });
+
+  async function signatureOfFailingRun(): Promise<string> {
+    const mocks = failingMocks();
+    await runCli(BASE_ARGV, mocks);
+    return mocks.state.recordFailure.mock.calls[0][3];
+  }
+
+  it('records the failure signature when commands fail', async () => {
+    const mocks = failingMocks();
+
+    await runCli(BASE_ARGV, mocks);
+
+    expect(mocks.state.recordFailure).toHaveBeenCalledOnce();
+    const [, key, headSha, signature] = mocks.state.recordFailure.mock.calls[0];
+    expect(key).toMatch(/^src\/\*\*\/\*\.ts#/);
+    expect(headSha).toBe('headSha');
+    expect(signature).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('does not block again when stop_hook_active is true and the same failures repeat', async () => {
+    const signature = await signatureOfFailingRun();
+    prepareNextRun();
+    mockStdin({ hook_event_name: 'Stop', stop_hook_active: true });
+    const mocks = failingMocks({ signature, at: '2026-01-15T10:00:00.000Z' });
+
+    await runCli(BASE_ARGV, mocks);
+
+    expect(mocks.executor.printFailures).not.toHaveBeenCalled();
+    expect(capturedExitCode).toBe(0);
+  });
+
+  it('still blocks on repeated failures when stop_hook_active is false', async () => {
+    const signature = await signatureOfFailingRun();
+    prepareNextRun();
+    mockStdin({ hook_event_name: 'Stop', stop_hook_active: false });
+    const mocks = failingMocks({ signature, at: '2026-01-15T10:00:00.000Z' });
+
+    await runCli(BASE_ARGV, mocks);
+
+    expect(mocks.executor.printFailures).toHaveBeenCalledOnce();
+    expect(capturedExitCode).toBe(2);
+  });
+
+  it('blocks when stop_hook_active is true but the failures differ from the previous ones', async () => {
+    mockStdin({ hook_event_name: 'Stop', stop_hook_active: true });
+    const mocks = failingMocks({ signature: 'other', at: '2026-01-15T10:00:00.000Z' });
+
+    await runCli(BASE_ARGV, mocks);
+
+    expect(mocks.executor.printFailures).toHaveBeenCalledOnce();
+    expect(capturedExitCode).toBe(2);
+  });
+
+  it('runs from the payload cwd', async () => {
+    const chdirSpy = vi.spyOn(process, 'chdir').mockImplementation(() => {});
+    mockStdin({ hook_event_name: 'Stop', cwd: '/home/user/project' });
+
+    try {
+      await runCli(BASE_ARGV, createMocks());
+      expect(chdirSpy).toHaveBeenCalledWith('/home/user/project');
+    } finally {
+      chdirSpy.mockRestore();
+    }
+  });
+
+  it('logs the hook event that triggered the run', async () => {
+    mockStdin({ hook_event_name: 'SubagentStop' });
+    const mocks = createMocks({
+      git: { getDiffEntries: vi.fn().mockResolvedValue(modifiedEntries('src/a.ts')) },
+      state: {
+        computeHashes: vi.fn().mockResolvedValue({ 'src/a.ts': 'hash1' }),
+        findChangedFiles: vi.fn().mockReturnValue(['src/a.ts']),
+      },
+      executor: {
+        executeAll: vi.fn().mockResolvedValue([{ command: 'echo ok', exitCode: 0, stdout: '', stderr: '' }]),
+      },
+    });
+
+    await runCli(BASE_ARGV, mocks);
+
+    const output = stderrSpy.mock.calls.map((c) => String(c[0])).join('');
+    expect(output).toContain('(SubagentStop hook)');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// --output-format claude-hook: hook JSON protocol on stdout
+// ---------------------------------------------------------------------------
+
+describe('--output-format claude-hook', () => {
+  let stdoutSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    stdoutSpy = vi.spyOn(process.stdout, 'write').mockReturnValue(true as any);
+  });
+
+  afterEach(() => {
+    stdoutSpy.mockRestore();
+  });
+
+  const HOOK_ARGV = [...BASE_ARGV, '--output-format', 'claude-hook'];
+
+  function writtenJson(): any {
+    return JSON.parse(stdoutSpy.mock.calls.map((c) => String(c[0])).join(''));
+  }
+
+  function mocksWithExitCode(exitCode: number) {
+    return createMocks({
+      git: { getDiffEntries: vi.fn().mockResolvedValue(modifiedEntries('src/a.ts')) },
+      state: {
+        computeHashes: vi.fn().mockResolvedValue({ 'src/a.ts': 'hash1' }),
+        findChangedFiles: vi.fn().mockReturnValue(['src/a.ts']),
+      },
+      executor: {
+        executeAll: vi.fn().mockResolvedValue([{ command: 'echo ok', exitCode, stdout: '', stderr: 'boom' }]),
+      },
+    });
+  }
+
+  it('prints a block decision and exits with 0 when a command fails on Stop', async () => {
+    mockStdin({ hook_event_name: 'Stop' });
+
+    await runCli(HOOK_ARGV, mocksWithExitCode(1));
+
+    const output = writtenJson();
+    expect(output.decision).toBe('block');
+    expect(output.reason).toContain('FAILED: echo ok');
+    expect(capturedExitCode).toBe(0);
+  });
+
+  it('prints additionalContext for PostToolUse', async () => {
+    mockStdin({ hook_event_name: 'PostToolUse' });
+
+    await runCli(HOOK_ARGV, mocksWithExitCode(1));
+
+    const output = writtenJson();
+    expect(output.hookSpecificOutput.additionalContext).toContain('FAILED: echo ok');
+    expect(capturedExitCode).toBe(0);
+  });
+
+  it('prints suppressOutput when every command succeeds', async () => {
+    await runCli(HOOK_ARGV, mocksWithExitCode(0));
+
+    expect(writtenJson()).toEqual({ suppressOutput: true });
+    expect(capturedExitCode).toBe(0);
+  });
+
+  it('rejects unknown output formats', async () => {
+    await runCli([...BASE_ARGV, '--output-format', 'xml'], createMocks());
+
+    expect(capturedExitCode).toBe(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// --exec-sequential: chain commands instead of running them in parallel
+// ---------------------------------------------------------------------------
+
+describe('--exec-sequential', () => {
+  const changedMocks = () => createMocks({
+    git: { getDiffEntries: vi.fn().mockResolvedValue(modifiedEntries('src/a.ts')) },
+    state: {
+      computeHashes: vi.fn().mockResolvedValue({ 'src/a.ts': 'hash1' }),
+      findChangedFiles: vi.fn().mockReturnValue(['src/a.ts']),
+    },
+  });
+
+  it('makes each command need the previous one', async () => {
+    const mocks = changedMocks();
+
+    await runCli(
+      ['node', 'delta-gate', '--on', 'src/**/*.ts', '--exec', 'npm run build', '--exec', 'npm test', '--exec-sequential'],
+      mocks,
+    );
+
+    const [commands] = mocks.executor.executeAll.mock.calls[0];
+    expect(commands).toEqual([
+      { run: 'npm run build', name: 'npm run build', needs: [] },
+      { run: 'npm test', name: 'npm test', needs: ['npm run build'] },
+    ]);
+  });
+
+  it('passes plain commands through without the flag', async () => {
+    const mocks = changedMocks();
+
+    await runCli(['node', 'delta-gate', '--on', 'src/**/*.ts', '--exec', 'a', '--exec', 'b'], mocks);
+
+    const [commands] = mocks.executor.executeAll.mock.calls[0];
+    expect(commands).toEqual(['a', 'b']);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// --fail-fast: cancel the other commands on the first failure
+// ---------------------------------------------------------------------------
+
+describe('--fail-fast', () => {
+  const failingMocks = (cancelledOutput: string) => createMocks({
+    git: { getDiffEntries: vi.fn().mockResolvedValue(modifiedEntries('src/a.ts')) },
+    state: {
+      computeHashes: vi.fn().mockResolvedValue({ 'src/a.ts': 'hash1' }),
+      findChangedFiles: vi.fn().mockReturnValue(['src/a.ts']),
+    },
+    executor: {
+      executeAll: vi.fn().mockResolvedValue([
+        { command: 'a', exitCode: 1, stdout: '', stderr: 'boom' },
+        { command: 'b', exitCode: null, stdout: cancelledOutput, stderr: '', cancelled: true },
+      ]),
+    },
+  });
+
+  it('asks the executor to cancel the other commands', async () => {
+    const mocks = failingMocks('');
+
+    await runCli(['node', 'delta-gate', '--on', 'src/**/*.ts', '--exec', 'a', '--exec', 'b', '--fail-fast'], mocks);
+
+    expect(mocks.executor.executeAll.mock.calls[0][4]).toMatchObject({ failFast: true });
+    expect(capturedExitCode).toBe(2);
+  });
+
+  it('leaves cancelled commands out of the failure signature', async () => {
+    const argv = ['node', 'delta-gate', '--on', 'src/**/*.ts', '--exec', 'a', '--exec', 'b', '--fail-fast'];
+    const first = failingMocks('progress 10%');
+    await runCli(argv, first);
+    prepareNextRun();
+    const second = failingMocks('progress 10%\nrunning suite');
+    await runCli(argv, second);
+
+    expect(first.state.recordFailure.mock.calls[0][3]).toBe(second.state.recordFailure.mock.calls[0][3]);
+  });
+
+  it('is off by default', async () => {
+    const mocks = failingMocks('');
+
+    await runCli(['node', 'delta-gate', '--on', 'src/**/*.ts', '--exec', 'a', '--exec', 'b'], mocks);
+
+    expect(mocks.executor.executeAll.mock.calls[0][4]).toMatchObject({ failFast: false });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Per-command snapshots: only the commands that did not pass on the current files re-run
+// ---------------------------------------------------------------------------
+
+describe('per-command snapshots', () => {
+  const ARGV = ['node', 'delta-gate', '--on', 'src/**/*.ts', '--exec', 'npm run lint', '--exec', 'npm test'];
+
+  const snapshotMocks = (hash: string, previousState: unknown, results: unknown[]) => createMocks({
+    git: { getDiffEntries: vi.fn().mockResolvedValue(modifiedEntries('src/a.ts')) },
+    state: {
+      loadState: vi.fn().mockReturnValue(previousState),
+      computeHashes: vi.fn().mockResolvedValue({ 'src/a.ts': hash }),
+      findChangedFiles: vi.fn((previous: Record<string, string>, current: Record<string, string>) =>
+        Object.keys(current).filter((file) => previous[file] !== current[file])),
+    },
+    executor: { executeAll: vi.fn().mockResolvedValue(results) },
+  });
+
+  const lintPassedTestFailed = [
+    { command: 'npm run lint', exitCode: 0, stdout: '', stderr: '' },
+    { command: 'npm test', exitCode: 1, stdout: '', stderr: 'boom' },
+  ];
+
+  it('records the commands that passed along with the failure', async () => {
+    const mocks = snapshotMocks('hash1', null, lintPassedTestFailed);
+
+    await runCli(ARGV, mocks);
+
+    const snapshots = mocks.state.recordFailure.mock.calls[0][4];
+    expect(Object.values(snapshots)).toEqual([
+      { headSha: 'headSha', divergedFileHashes: { 'src/a.ts': 'hash1' }, lastSuccessAt: expect.any(String) },
+    ]);
+    expect(mocks.state.saveState).not.toHaveBeenCalled();
+    expect(capturedExitCode).toBe(2);
+  });
+
+  it('only re-runs the commands whose snapshot differs from the current files', async () => {
+    const first = snapshotMocks('hash1', null, lintPassedTestFailed);
+    await runCli(ARGV, first);
+    const commandSnapshots = first.state.recordFailure.mock.calls[0][4];
+
+    prepareNextRun();
+    const previousState = { headSha: 'headSha', divergedFileHashes: {}, commandSnapshots };
+    const second = snapshotMocks('hash1', previousState, [
+      { command: 'npm run lint', exitCode: 0, stdout: '', stderr: '', upToDate: true },
+      { command: 'npm test', exitCode: 0, stdout: '', stderr: '' },
+    ]);
+    await runCli(ARGV, second);
+
+    expect(second.executor.executeAll.mock.calls[0][4].upToDate).toEqual(new Set(['npm run lint']));
+    const [, , saved] = second.state.saveState.mock.calls[0];
+    expect(Object.keys(saved.commandSnapshots)).toHaveLength(2);
+    expect(Object.values(saved.commandSnapshots)).toContainEqual(commandSnapshots[Object.keys(commandSnapshots)[0]]);
+    expect(capturedExitCode).toBe(0);
+
+    prepareNextRun();
+    const third = snapshotMocks('hash2', previousState, lintPassedTestFailed);
+    await runCli(ARGV, third);
+    expect(third.executor.executeAll.mock.calls[0][4].upToDate).toEqual(new Set());
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Flaky commands: failed, then passed on a retry
+// ---------------------------------------------------------------------------
+
+describe('flaky commands', () => {
+  it('reports flaky passes on stderr and saves the state', async () => {
+    const attempts = [{ exitCode: 1, stdout: '', stderr: '' }, { exitCode: 0, stdout: '', stderr: '' }];
+    const mocks = createMocks({
+      git: { getDiffEntries: vi.fn().mockResolvedValue(modifiedEntries('src/a.ts')) },
+      state: {
+        computeHashes: vi.fn().mockResolvedValue({ 'src/a.ts': 'hash1' }),
+        findChangedFiles: vi.fn().mockReturnValue(['src/a.ts']),
+      },
+      executor: {
+        executeAll: vi.fn().mockResolvedValue([{ command: 'echo ok', exitCode: 0, stdout: '', stderr: '', attempts, flaky: true }]),
+      },
+    });
+
+    await runCli(BASE_ARGV, mocks);
+
+    const output = stderrSpy.mock.calls.map((c) => String(c[0])).join('');
+    expect(output).toContain('delta-gate: "echo ok" passed after 2 attempts (flaky)');
+    expect(mocks.state.saveState).toHaveBeenCalledOnce();
+    expect(capturedExitCode).toBe(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// --cache: skip the commands on file contents that already passed
+// ---------------------------------------------------------------------------
+
+describe('--cache', () => {
+  const ARGV = ['node', 'delta-gate', '--on', 'src/**/*.ts', '--exec', 'npm test', '--cache'];
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'delta-gate-cli-cache-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const cacheMocks = (hash: string, exitCode: number) => createMocks({
+    git: { getGitCommonDir: vi.fn().mockResolvedValue(dir), getDiffEntries: vi.fn().mockResolvedValue(modifiedEntries('src/a.ts')) },
+    state: {
+      loadState: vi.fn().mockReturnValue({ headSha: 'headSha', divergedFileHashes: { 'src/a.ts': 'base' } }),
+      computeHashes: vi.fn().mockResolvedValue({ 'src/a.ts': hash }),
+      findChangedFiles: vi.fn((previous: Record<string, string>, current: Record<string, string>) =>
+        Object.keys(current).filter((file) => previous[file] !== current[file])),
+    },
+    executor: { executeAll: vi.fn().mockResolvedValue([{ command: 'npm test', exitCode, stdout: '', stderr: '' }]) },
+  });
+
+  it('does not run the commands again on file contents that already passed', async () => {
+    const first = cacheMocks('hash1', 0);
+    await runCli(ARGV, first);
+    expect(first.executor.executeAll).toHaveBeenCalledOnce();
+
+    // Back to the same contents after they changed (branch switch, revert...)
+    prepareNextRun();
+    const second = cacheMocks('hash1', 0);
+    await runCli([...ARGV, '--report', `json:${join(dir, 'report.json')}`], second);
+
+    expect(second.executor.executeAll).not.toHaveBeenCalled();
+    expect(second.state.saveState.mock.calls[0][2]).toMatchObject({ divergedFileHashes: { 'src/a.ts': 'hash1' } });
+    const output = stderrSpy.mock.calls.map((c) => String(c[0])).join('');
+    expect(output).toContain('these files already passed on');
+    expect(JSON.parse(readFileSync(join(dir, 'report.json'), 'utf-8')).watchers[0]).toMatchObject({ executed: false, cached: true });
+    expect(capturedExitCode).toBe(0);
+  });
+
+  it('runs the commands on the same edit on top of another commit', async () => {
+    // src/a.ts has the same uncommitted content on both branches, src/b.ts is committed with other contents
+    const onBranch = (headSha: string, bBlob: string, exitCode: number) => {
+      const mocks = cacheMocks('hash1', exitCode);
+      mocks.git.getHeadSha.mockResolvedValue(headSha);
+      mocks.git.getTreeBlobs.mockResolvedValue({ 'src/a.ts': 'aBlob', 'src/b.ts': bBlob, 'README.md': 'readmeBlob' });
+      return mocks;
+    };
+    await runCli(ARGV, onBranch('mainSha', 'bBlob1', 0));
+
+    prepareNextRun();
+    const feat = onBranch('featSha', 'bBlob2', 1);
+    await runCli(ARGV, feat);
+    expect(feat.git.getTreeBlobs).toHaveBeenCalledWith('/repo', 'featSha');
+    expect(feat.executor.executeAll).toHaveBeenCalledOnce();
+    expect(capturedExitCode).toBe(2);
+
+    // Back on main: src/b.ts, committed in between, is hashed too, and still hits the entry of the first run
+    prepareNextRun();
+    const main = onBranch('mainSha', 'bBlob1', 0);
+    main.git.getDiffEntriesBetweenCommits.mockResolvedValue([{ status: 'modified', path: 'src/b.ts' }]);
+    main.state.computeHashes.mockResolvedValue({ 'src/a.ts': 'hash1', 'src/b.ts': 'hashB1' });
+    await runCli(ARGV, main);
+    expect(main.executor.executeAll).not.toHaveBeenCalled();
+    expect(capturedExitCode).toBe(0);
+  });
+
+  it('runs the commands on other file contents', async () => {
+    await runCli(ARGV, cacheMocks('hash1', 0));
+    prepareNextRun();
+    const second = cacheMocks('hash2', 0);
+    await runCli(ARGV, second);
+
+    expect(second.executor.executeAll).toHaveBeenCalledOnce();
+  });
+
+  it('does not cache failures', async () => {
+    await runCli(ARGV, cacheMocks('hash1', 1));
+    prepareNextRun();
+    const second = cacheMocks('hash1', 0);
+    await runCli(ARGV, second);
+
+    expect(second.executor.executeAll).toHaveBeenCalledOnce();
+  });
+
+  it('is off by default', async () => {
+    const mocks = cacheMocks('hash1', 0);
+    await runCli(ARGV.slice(0, -1), mocks);
+
+    expect(mocks.git.getGitCommonDir).not.toHaveBeenCalled();
+  });
+
+  it('uses the directory given with --cache-dir, relative to the git root', async () => {
+    const argv = [...ARGV.slice(0, -1), '--cache-dir', 'shared'];
+    const first = cacheMocks('hash1', 0);
+    first.git.getGitRoot.mockResolvedValue(dir);
+    await runCli(argv, first);
+    expect(readdirSync(join(dir, 'shared'))).toHaveLength(1);
+
+    prepareNextRun();
+    const second = cacheMocks('hash1', 0);
+    second.git.getGitRoot.mockResolvedValue(dir);
+    await runCli(argv, second);
+
+    expect(second.executor.executeAll).not.toHaveBeenCalled();
+    expect(second.git.getGitCommonDir).not.toHaveBeenCalled();
+  });
+
+  it('does not reuse a shared entry written on another commit, even without any diverged file', async () => {
+    const argv = [...ARGV.slice(0, -1), '--cache-dir', 'shared'];
+    // Nothing diverges from HEAD: the gate runs because its commands changed since the stored state
+    const onCommit = (headSha: string, aBlob: string) => createMocks({
+      git: {
+        getGitRoot: vi.fn().mockResolvedValue(dir),
+        getHeadSha: vi.fn().mockResolvedValue(headSha),
+        getTreeBlobs: vi.fn().mockResolvedValue({ 'src/a.ts': aBlob }),
+      },
+      state: { loadState: vi.fn().mockReturnValue({ headSha, divergedFileHashes: {}, fingerprint: 'previousFingerprint' }) },
+      executor: { executeAll: vi.fn().mockResolvedValue([{ command: 'npm test', exitCode: 0, stdout: '', stderr: '' }]) },
+    });
+    await runCli(argv, onCommit('ciSha', 'aBlob1'));
+
+    prepareNextRun();
+    const developer = onCommit('developerSha', 'aBlob2');
+    await runCli(argv, developer);
+    expect(developer.executor.executeAll).toHaveBeenCalledOnce();
+
+    prepareNextRun();
+    const sameCommit = onCommit('ciSha', 'aBlob1');
+    await runCli(argv, sameCommit);
+    expect(sameCommit.executor.executeAll).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Untracked files are diverged files too
+// ---------------------------------------------------------------------------
+
+describe('untracked files', () => {
+  const untrackedMocks = () => createMocks({
+    git: {
+      getDiffEntries: vi.fn().mockResolvedValue(modifiedEntries('src/a.ts')),
+      getUntrackedFiles: vi.fn().mockResolvedValue(['src/new.ts', 'src/a.ts', 'notes.md']),
+    },
+    state: {
+      computeHashes: vi.fn().mockResolvedValue({ 'src/a.ts': 'hash1', 'src/new.ts': 'hash2' }),
+      findChangedFiles: vi.fn().mockReturnValue(['src/a.ts', 'src/new.ts']),
+    },
+    executor: {
+      executeAll: vi.fn().mockResolvedValue([{ command: 'echo ok', exitCode: 0, stdout: '', stderr: '' }]),
+    },
+  });
+
+  it('includes matching untracked files in the hashed files, without duplicates', async () => {
+    const mocks = untrackedMocks();
+
+    await runCli(BASE_ARGV, mocks);
+
+    const [, files] = mocks.state.computeHashes.mock.calls[0];
+    expect(files).toEqual(['src/a.ts', 'src/new.ts']);
+  });
+
+  it('exposes untracked files in the template variables', async () => {
+    const mocks = untrackedMocks();
+
+    await runCli(BASE_ARGV, mocks);
+
+    const [, , templateVars] = mocks.executor.executeAll.mock.calls[0];
+    expect(templateVars.ON_CHANGES_RUN_DIFF_FILES).toBe('src/a.ts\nsrc/new.ts');
+  });
+
+  it('does not look for untracked files with --no-untracked', async () => {
+    const mocks = untrackedMocks();
+
+    await runCli([...BASE_ARGV, '--no-untracked'], mocks);
+
+    expect(mocks.git.getUntrackedFiles).not.toHaveBeenCalled();
+    const [, files] = mocks.state.computeHashes.mock.calls[0];
+    expect(files).toEqual(['src/a.ts']);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Several include globs and exclude patterns per watcher
+// ---------------------------------------------------------------------------
+
+describe('multiple --on and --ignore globs', () => {
+  const ARGV = [
+    'node', 'delta-gate',
+    '--on', 'src/**/*.ts', '--on', 'src/**/*.tsx',
+    '--ignore', '**/*.generated.ts', '--on', '!**/__snapshots__/**',
+    '--exec', 'echo ok',
+  ];
+
+  it('keeps files matching any include glob and no exclude glob', async () => {
+    const mocks = createMocks({
+      git: {
+        getDiffEntries: vi.fn().mockResolvedValue(modifiedEntries(
+          'src/a.ts', 'src/b.tsx', 'src/api.generated.ts', 'src/__snapshots__/c.ts', 'docs/d.md',
+        )),
+      },
+    });
+
+    await runCli(ARGV, mocks);
+
+    const [, files] = mocks.state.computeHashes.mock.calls[0];
+    expect(files).toEqual(['src/a.ts', 'src/b.tsx']);
+  });
+
+  it('keys the state by the canonical pattern set', async () => {
+    const mocks = createMocks();
+
+    await runCli(ARGV, mocks);
+
+    const [, key] = mocks.state.loadState.mock.calls[0];
+    expect(key.startsWith('["src/**/*.ts","src/**/*.tsx","!**/*.generated.ts","!**/__snapshots__/**"]#')).toBe(true);
+  });
+
+  it('requires --on when --ignore is given', async () => {
+    await runCli(['node', 'delta-gate', '--ignore', '**/*.md'], createMocks());
+
+    expect(capturedExitCode).toBe(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Watcher identity: --id, command hash and migration of pattern-keyed state
+// ---------------------------------------------------------------------------
+
+describe('watcher identity', () => {
+  it('uses different state keys for the same glob with different commands', async () => {
+    const lintMocks = createMocks();
+    await runCli(['node', 'delta-gate', '--on', 'src/**/*.ts', '--exec', 'npm run lint'], lintMocks);
+    const lintKey = lintMocks.state.loadState.mock.calls[0][1];
+
+    prepareNextRun();
+    const testMocks = createMocks();
+    await runCli(['node', 'delta-gate', '--on', 'src/**/*.ts', '--exec', 'npm test'], testMocks);
+    const testKey = testMocks.state.loadState.mock.calls[0][1];
+
+    expect(lintKey).not.toBe(testKey);
+  });
+
+  it('uses --id as the state key', async () => {
+    const mocks = createMocks();
+
+    await runCli([...BASE_ARGV, '--id', 'frontend-lint'], mocks);
+
+    expect(mocks.state.loadState.mock.calls[0][1]).toBe('frontend-lint');
+    expect(mocks.state.saveState.mock.calls[0][1]).toBe('frontend-lint');
+  });
+
+  it('stores the globs of the watcher alongside its state', async () => {
+    const mocks = createMocks();
+
+    await runCli([...BASE_ARGV, '--ignore', '**/*.d.ts'], mocks);
+
+    expect(mocks.state.saveState.mock.calls[0][2].patterns).toEqual({ include: ['src/**/*.ts'], exclude: ['**/*.d.ts'] });
+  });
+
+  it('migrates state keyed by the glob pattern only', async () => {
+    const legacyState = { headSha: 'headSha', divergedFileHashes: { 'src/a.ts': 'hash1' } };
+    const mocks = createMocks({
+      state: {
+        loadState: vi.fn((_path: string, key: string) => (key === 'src/**/*.ts' ? legacyState : null)),
+      },
+    });
+
+    await runCli([...BASE_ARGV, '--id', 'frontend-lint'], mocks);
+
+    expect(mocks.state.migrateState).toHaveBeenCalledWith(
+      join('/repo', '.claude/delta-gate.state.local.json'),
+      'src/**/*.ts',
+      'frontend-lint',
+    );
+    // The migrated snapshot is used as the previous state
+    expect(mocks.state.findChangedFiles).toHaveBeenCalledWith(legacyState.divergedFileHashes, {});
+  });
+
+  it('does not migrate when state already exists under the watcher key', async () => {
+    const mocks = createMocks({
+      state: { loadState: vi.fn().mockReturnValue({ headSha: 'headSha', divergedFileHashes: {} }) },
+    });
+
+    await runCli(BASE_ARGV, mocks);
+
+    expect(mocks.state.loadState).toHaveBeenCalledOnce();
+    expect(mocks.state.migrateState).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Gate fingerprint: commands, timeout and declared input files
+// ---------------------------------------------------------------------------
+
+describe('gate fingerprint', () => {
+  async function fingerprintOf(argv: string[], inputHashes: Record<string, string> = {}): Promise<string> {
+    const mocks = createMocks({
+      git: { getRepoFiles: vi.fn().mockResolvedValue(Object.keys(inputHashes)) },
+      state: {
+        computeHashes: vi.fn(async (_root: string, files: string[]) =>
+          Object.fromEntries(files.filter((f) => f in inputHashes).map((f) => [f, inputHashes[f]]))),
+      },
+    });
+    await runCli(argv, mocks);
+    const fingerprint = mocks.state.saveState.mock.calls[0][2].fingerprint;
+    prepareNextRun();
+    return fingerprint;
+  }
+
+  it('stores a fingerprint alongside the file hashes', async () => {
+    expect(await fingerprintOf(BASE_ARGV)).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('changes with the commands and the timeout', async () => {
+    const base = await fingerprintOf([...BASE_ARGV, '--id', 'x']);
+    expect(await fingerprintOf([...BASE_ARGV, '--id', 'x', '--exec', 'npm test'])).not.toBe(base);
+    expect(await fingerprintOf([...BASE_ARGV, '--id', 'x', '--exec-timeout', '600'])).not.toBe(base);
+  });
+
+  it('changes with the content of the declared input files', async () => {
+    const argv = [...BASE_ARGV, '--inputs', 'tsconfig.json,.eslintrc*'];
+    const before = await fingerprintOf(argv, { 'tsconfig.json': 'h1', '.eslintrc.json': 'h2' });
+    const after = await fingerprintOf(argv, { 'tsconfig.json': 'h1', '.eslintrc.json': 'h3' });
+    expect(after).not.toBe(before);
+  });
+
+  it('hashes only the repository files matching --inputs, plus literal paths', async () => {
+    const mocks = createMocks({
+      git: { getRepoFiles: vi.fn().mockResolvedValue(['tsconfig.json', '.eslintrc.cjs', 'src/a.ts']) },
+    });
+
+    await runCli([...BASE_ARGV, '--inputs', '.eslintrc*', '--inputs', '.env'], mocks);
+
+    const inputFiles = mocks.state.computeHashes.mock.calls[1][1];
+    expect(inputFiles).toEqual(['.env', '.eslintrc.cjs']);
+  });
+
+  it('does not list repository files when there are no inputs', async () => {
+    const mocks = createMocks();
+
+    await runCli(BASE_ARGV, mocks);
+
+    expect(mocks.git.getRepoFiles).not.toHaveBeenCalled();
+  });
+
+  it('re-runs the commands over every diverged matching file when the fingerprint changed', async () => {
+    const mocks = createMocks({
+      git: { getDiffEntries: vi.fn().mockResolvedValue(modifiedEntries('src/a.ts', 'src/b.ts')) },
+      state: {
+        loadState: vi.fn().mockReturnValue({
+          headSha: 'headSha',
+          divergedFileHashes: { 'src/a.ts': 'hash1', 'src/b.ts': 'hash2' },
+          fingerprint: 'outdated',
+        }),
+        computeHashes: vi.fn().mockResolvedValue({ 'src/a.ts': 'hash1', 'src/b.ts': 'hash2' }),
+        findChangedFiles: vi.fn().mockReturnValue([]),
+      },
+      executor: {
+        executeAll: vi.fn().mockResolvedValue([{ command: 'echo ok', exitCode: 0, stdout: '', stderr: '' }]),
+      },
+    });
+
+    await runCli(BASE_ARGV, mocks);
+
+    expect(mocks.executor.executeAll).toHaveBeenCalledOnce();
+    const [, , templateVars] = mocks.executor.executeAll.mock.calls[0];
+    expect(templateVars.ON_CHANGES_RUN_CHANGED_FILES).toBe('src/a.ts\nsrc/b.ts');
+    expect(mocks.state.saveState.mock.calls[0][2].fingerprint).not.toBe('outdated');
+  });
+
+  it('re-runs the commands when the fingerprint changed even without diverged files', async () => {
+    const mocks = createMocks({
+      state: { loadState: vi.fn().mockReturnValue({ headSha: 'headSha', divergedFileHashes: {}, fingerprint: 'outdated' }) },
+      executor: {
+        executeAll: vi.fn().mockResolvedValue([{ command: 'echo ok', exitCode: 0, stdout: '', stderr: '' }]),
+      },
+    });
+
+    await runCli(BASE_ARGV, mocks);
+
+    expect(mocks.executor.executeAll).toHaveBeenCalledOnce();
+  });
+
+  it('trusts state written before fingerprints were recorded', async () => {
+    const mocks = createMocks({
+      state: { loadState: vi.fn().mockReturnValue({ headSha: 'headSha', divergedFileHashes: {} }) },
+    });
+
+    await runCli(BASE_ARGV, mocks);
+
+    expect(mocks.executor.executeAll).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// status subcommand: pending changes without running anything
+// ---------------------------------------------------------------------------
+
+describe('status subcommand', () => {
+  let stdoutSpy: ReturnType<typeof vi.spyOn>;
+  let dir: string;
+
+  beforeEach(() => {
+    stdoutSpy = vi.spyOn(process.stdout, 'write').mockReturnValue(true as any);
+    dir = mkdtempSync(join(tmpdir(), 'delta-gate-status-'));
+  });
+
+  afterEach(() => {
+    stdoutSpy.mockRestore();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function written(): string {
+    return stdoutSpy.mock.calls.map((c) => String(c[0])).join('');
+  }
+
+  const lintState = {
+    headSha: 'headSha',
+    divergedFileHashes: { 'src/a.ts': 'hash1', 'src/old.ts': 'hash2' },
+    lastSuccessAt: '2026-10-19T10:00:00.000Z',
+    patterns: { include: ['src/**/*.ts'], exclude: [] },
+  };
+
+  function pendingMocks() {
+    return createMocks({
+      // src/old.ts is deleted: git still lists it, but it has no hash anymore
+      git: {
+        getDiffEntries: vi.fn().mockResolvedValue([
+          { status: 'modified', path: 'src/a.ts' },
+          { status: 'added', path: 'src/new.ts' },
+          { status: 'deleted', path: 'src/old.ts' },
+          { status: 'modified', path: 'README.md' },
+        ]),
+      },
+      state: {
+        readStateFile: vi.fn().mockReturnValue({ lint: lintState }),
+        loadState: vi.fn().mockReturnValue(lintState),
+        computeHashes: vi.fn().mockResolvedValue({ 'src/a.ts': 'changed', 'src/new.ts': 'hash3' }),
+        findChangedFiles: vi.fn().mockReturnValue(['src/a.ts', 'src/new.ts', 'src/old.ts']),
+      },
+    });
+  }
+
+  it('reports the pending changes of every watcher in the state file and exits with 1', async () => {
+    const mocks = pendingMocks();
+
+    await runCli(['node', 'delta-gate', 'status', '--json'], mocks);
+
+    expect(JSON.parse(written())).toEqual({
+      pending: true,
+      watchers: [{
+        id: 'lint',
+        pattern: 'src/**/*.ts',
+        pending: true,
+        added: ['src/new.ts'],
+        modified: ['src/a.ts'],
+        deleted: ['src/old.ts'],
+        renamed: [],
+        gateChanged: false,
+        headSha: 'headSha',
+        lastSuccessAt: '2026-10-19T10:00:00.000Z',
+      }],
+    });
+    expect(mocks.state.computeHashes.mock.calls[0][1]).toEqual(['src/a.ts', 'src/new.ts', 'src/old.ts']);
+    expect(capturedExitCode).toBe(1);
+  });
+
+  it('never runs commands nor writes state', async () => {
+    const mocks = pendingMocks();
+
+    await runCli(['node', 'delta-gate', 'status'], mocks);
+
+    expect(written()).toMatch(/^lint\s+pending\s+1\s+1\s+1\s+0\s+headSha/m);
+    expect(mocks.executor.executeAll).not.toHaveBeenCalled();
+    expect(mocks.state.saveState).not.toHaveBeenCalled();
+    expect(mocks.state.recordFailure).not.toHaveBeenCalled();
+    expect(mocks.state.migrateState).not.toHaveBeenCalled();
+  });
+
+  it('exits with 0 when nothing is pending', async () => {
+    const mocks = createMocks({
+      state: { readStateFile: vi.fn().mockReturnValue({ lint: lintState }) },
+    });
+
+    await runCli(['node', 'delta-gate', 'status', '--json'], mocks);
+
+    expect(JSON.parse(written()).pending).toBe(false);
+    expect(capturedExitCode).toBe(0);
+  });
+
+  it('reads the globs of entries without stored patterns from their key', async () => {
+    const mocks = createMocks({
+      git: { getDiffEntries: vi.fn().mockResolvedValue(modifiedEntries('src/a.ts', 'backend/App.kt')) },
+      state: {
+        readStateFile: vi.fn().mockReturnValue({ 'src/**/*.ts#0123456789ab': { headSha: 'headSha', divergedFileHashes: {} } }),
+      },
+    });
+
+    await runCli(['node', 'delta-gate', 'status', '--json'], mocks);
+
+    expect(mocks.state.computeHashes.mock.calls[0][1]).toEqual(['src/a.ts']);
+    expect(JSON.parse(written()).watchers[0].pattern).toBe('src/**/*.ts');
+  });
+
+  it('checks the watchers of the config file, including changes to their commands', async () => {
+    const configPath = join(dir, 'delta-gate.config.json');
+    writeFileSync(configPath, JSON.stringify({ watchers: [{ id: 'lint', on: 'src/**/*.ts', exec: ['npm run lint'] }] }));
+    const mocks = createMocks({
+      state: {
+        loadState: vi.fn().mockReturnValue({ ...lintState, fingerprint: 'outdated' }),
+        computeHashes: vi.fn().mockResolvedValue({}),
+        findChangedFiles: vi.fn().mockReturnValue([]),
+      },
+    });
+
+    await runCli(['node', 'delta-gate', 'status', '--config', configPath, '--json'], mocks);
+
+    const [watcher] = JSON.parse(written()).watchers;
+    expect(watcher).toMatchObject({ id: 'lint', pending: true, gateChanged: true });
+    expect(mocks.state.readStateFile).not.toHaveBeenCalled();
+    expect(capturedExitCode).toBe(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// state subcommands: show, reset, prune, accept
+// ---------------------------------------------------------------------------
+
+describe('state subcommands', () => {
+  let stdoutSpy: ReturnType<typeof vi.spyOn>;
+  let dir: string;
+
+  beforeEach(() => {
+    stdoutSpy = vi.spyOn(process.stdout, 'write').mockReturnValue(true as any);
+    dir = mkdtempSync(join(tmpdir(), 'delta-gate-state-'));
+  });
+
+  afterEach(() => {
+    stdoutSpy.mockRestore();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function written(): string {
+    return stdoutSpy.mock.calls.map((c) => String(c[0])).join('');
+  }
+
+  const STATE_PATH = join('/repo', '.claude/delta-gate.state.local.json');
+  const stateFile = {
+    'src/**/*.ts#0123456789ab': { headSha: 'headSha', divergedFileHashes: {}, lastSuccessAt: new Date().toISOString() },
+    lint: {
+      headSha: 'headSha',
+      divergedFileHashes: {},
+      lastSuccessAt: '2020-01-01T00:00:00.000Z',
+      patterns: { include: ['lib/**/*.js'], exclude: [] },
+    },
+  };
+
+  // Apply the removeStates predicate to the state file above
+  function removeStatesOf(entries: Record<string, any>) {
+    return vi.fn(async (_path: string, shouldRemove: (key: string, state: any) => boolean) =>
+      Object.entries(entries).filter(([key, state]) => shouldRemove(key, state)).map(([key]) => key));
+  }
+
+  it('show pretty-prints the state file, read under the file lock', async () => {
+    const mocks = createMocks({ state: { readStateFileLocked: vi.fn().mockResolvedValue(stateFile) } });
+
+    await runCli(['node', 'delta-gate', 'state', 'show'], mocks);
+
+    expect(mocks.state.readStateFileLocked).toHaveBeenCalledWith(STATE_PATH);
+    expect(written()).toBe(JSON.stringify(stateFile, null, 2) + '\n');
+    expect(capturedExitCode).toBe(0);
+  });
+
+  it('reset removes every entry by default', async () => {
+    const removeStates = removeStatesOf(stateFile);
+    const mocks = createMocks({ state: { readStateFile: vi.fn().mockReturnValue(stateFile), removeStates } });
+
+    await runCli(['node', 'delta-gate', 'state', 'reset'], mocks);
+
+    expect(removeStates.mock.calls[0][0]).toBe(STATE_PATH);
+    expect(written()).toBe('Removed src/**/*.ts#0123456789ab\nRemoved lint\n');
+  });
+
+  it('reset only removes the watchers selected with --id or --on', async () => {
+    const removeStates = removeStatesOf(stateFile);
+    const mocks = createMocks({ state: { readStateFile: vi.fn().mockReturnValue(stateFile), removeStates } });
+
+    await runCli(['node', 'delta-gate', 'state', 'reset', '--on', 'src/**/*.ts'], mocks);
+    expect(written()).toBe('Removed src/**/*.ts#0123456789ab\n');
+
+    prepareNextRun();
+    stdoutSpy.mockClear();
+    await runCli(['node', 'delta-gate', 'state', 'reset', '--id', 'lint'], mocks);
+    expect(written()).toBe('Removed lint\n');
+  });
+
+  it('reset fails when nothing matches the selection', async () => {
+    const mocks = createMocks({ state: { readStateFile: vi.fn().mockReturnValue(stateFile) } });
+
+    await runCli(['node', 'delta-gate', 'state', 'reset', '--id', 'unknown'], mocks);
+
+    expect(mocks.state.removeStates).not.toHaveBeenCalled();
+    expect(capturedExitCode).toBe(1);
+  });
+
+  it('prune removes the entries of watchers that are no longer configured', async () => {
+    const configPath = join(dir, 'delta-gate.config.json');
+    writeFileSync(configPath, JSON.stringify({ watchers: [{ id: 'lint', on: 'lib/**/*.js', exec: ['npm run lint'] }] }));
+    const removeStates = removeStatesOf(stateFile);
+    const mocks = createMocks({ state: { removeStates } });
+
+    await runCli(['node', 'delta-gate', 'state', 'prune', '--config', configPath], mocks);
+
+    expect(written()).toBe('Removed src/**/*.ts#0123456789ab\n');
+  });
+
+  it('prune removes the entries not run for --older-than days', async () => {
+    const removeStates = removeStatesOf(stateFile);
+    const mocks = createMocks({ state: { removeStates } });
+
+    await runCli(['node', 'delta-gate', 'state', 'prune', '--older-than', '30'], mocks);
+
+    expect(written()).toBe('Removed lint\n');
+  });
+
+  it('prune refuses to run without a config nor --older-than', async () => {
+    const mocks = createMocks();
+
+    await runCli(['node', 'delta-gate', 'state', 'prune'], mocks);
+
+    expect(mocks.state.removeStates).not.toHaveBeenCalled();
+    expect(capturedExitCode).toBe(1);
+  });
+
+  it('accept records the current hashes as a success without running commands', async () => {
+    const mocks = createMocks({
+      git: { getDiffEntries: vi.fn().mockResolvedValue([{ status: 'added', path: 'lib/a.js' }]) },
+      state: {
+        readStateFile: vi.fn().mockReturnValue(stateFile),
+        loadState: vi.fn((_path: string, key: string) => stateFile[key as keyof typeof stateFile] ?? null),
+        computeHashes: vi.fn().mockResolvedValue({ 'lib/a.js': 'hash1' }),
+        findChangedFiles: vi.fn().mockReturnValue(['lib/a.js']),
+      },
+    });
+
+    await runCli(['node', 'delta-gate', 'state', 'accept', '--id', 'lint'], mocks);
+
+    expect(mocks.executor.executeAll).not.toHaveBeenCalled();
+    expect(mocks.state.saveState).toHaveBeenCalledOnce();
+    const [statePath, key, saved] = mocks.state.saveState.mock.calls[0];
+    expect(statePath).toBe(STATE_PATH);
+    expect(key).toBe('lint');
+    expect(saved.divergedFileHashes).toEqual({ 'lib/a.js': 'hash1' });
+    expect(saved.lastSuccessAt).not.toBe('2020-01-01T00:00:00.000Z');
+    expect(written()).toBe('Accepted lint (1 new, 0 modified, 0 deleted, 0 renamed)\n');
+  });
+
+  it('accept stores the fingerprint of configured watchers', async () => {
+    const configPath = join(dir, 'delta-gate.config.json');
+    writeFileSync(configPath, JSON.stringify({ watchers: [{ id: 'lint', on: 'lib/**/*.js', exec: ['npm run lint'] }] }));
+    const mocks = createMocks();
+
+    await runCli(['node', 'delta-gate', 'state', 'accept', '--config', configPath], mocks);
+
+    expect(mocks.state.saveState.mock.calls[0][2].fingerprint).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// install / uninstall subcommands
+// ---------------------------------------------------------------------------
+
+describe('install subcommands', () => {
+  let stdoutSpy: ReturnType<typeof vi.spyOn>;
+  let dir: string;
+
+  beforeEach(() => {
+    stdoutSpy = vi.spyOn(process.stdout, 'write').mockReturnValue(true as any);
+    dir = mkdtempSync(join(tmpdir(), 'delta-gate-install-'));
+  });
+
+  afterEach(() => {
+    stdoutSpy.mockRestore();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function written(): string {
+    return stdoutSpy.mock.calls.map((c) => String(c[0])).join('');
+  }
+
+  it('installs the arguments given after --, then uninstalls', async () => {
+    const mocks = createMocks({ git: { getGitRoot: vi.fn().mockResolvedValue(dir) } });
+    const settingsPath = join(dir, '.claude', 'settings.local.json');
+
+    await runCli(['node', 'delta-gate', 'install', '--target', 'claude', '--local', '--', '--on', 'src/**/*.ts', '--exec', 'npm run lint'], mocks);
+
+    const command = JSON.parse(readFileSync(settingsPath, 'utf-8')).hooks.Stop[0].hooks[0].command;
+    expect(command).toMatch(/^npx -y delta-gate@\S+ --on 'src\/\*\*\/\*\.ts' --exec 'npm run lint' # delta-gate install$/);
+    expect(written()).toMatch(/^Installed delta-gate in .*settings\.local\.json\n$/);
+    expect(capturedExitCode).toBe(0);
+
+    prepareNextRun();
+    stdoutSpy.mockClear();
+    await runCli(['node', 'delta-gate', 'uninstall', '--target', 'claude', '--local'], mocks);
+
+    expect(JSON.parse(readFileSync(settingsPath, 'utf-8'))).toEqual({});
+    expect(written()).toMatch(/^Removed delta-gate from .*settings\.local\.json\n$/);
+  });
+
+  it('refuses to install a command without any watcher to run', async () => {
+    const mocks = createMocks({ git: { getGitRoot: vi.fn().mockResolvedValue(dir) } });
+
+    await runCli(['node', 'delta-gate', 'install', '--target', 'git-pre-commit'], mocks);
+
+    expect(capturedExitCode).toBe(1);
+    expect(stderrSpy.mock.calls.map((c) => String(c[0])).join('')).toContain('the installed command would have no watcher to run');
+    expect(mocks.git.getGitHooksDir).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown targets', async () => {
+    await runCli(['node', 'delta-gate', 'install', '--target', 'husky'], createMocks());
+
+    expect(capturedExitCode).toBe(1);
+    expect(stderrSpy.mock.calls.map((c) => String(c[0])).join('')).toContain("argument 'husky' is invalid");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// --dry-run and --explain
+// ---------------------------------------------------------------------------
+
+describe('--dry-run and --explain', () => {
+  function stderrOutput(): string {
+    return stderrSpy.mock.calls.map((c) => String(c[0])).join('');
+  }
+
+  const changedMocks = (state: Record<string, unknown> = {}) => createMocks({
+    git: { getDiffEntries: vi.fn().mockResolvedValue(modifiedEntries('src/a.ts', 'README.md')) },
+    state: {
+      computeHashes: vi.fn().mockResolvedValue({ 'src/a.ts': 'hash1' }),
+      findChangedFiles: vi.fn().mockReturnValue(['src/a.ts']),
+      ...state,
+    },
+  });
+
+  it('prints the interpolated commands without running them nor saving state', async () => {
+    const mocks = changedMocks();
+
+    await runCli(['node', 'delta-gate', '--on', 'src/**/*.ts', '--exec', 'eslint {{ON_CHANGES_RUN_CHANGED_FILES}}', '--dry-run'], mocks);
+
+    expect(mocks.executor.executeAll).not.toHaveBeenCalled();
+    expect(mocks.state.saveState).not.toHaveBeenCalled();
+    expect(stderrOutput()).toContain('[dry run] 1 file(s) changed matching "src/**/*.ts", would run 1 command(s):\n  eslint src/a.ts\n');
+    expect(capturedExitCode).toBe(0);
+  });
+
+  it('does not save a baseline nor migrate legacy state on a dry run', async () => {
+    const mocks = createMocks({
+      state: { loadState: vi.fn((_path: string, key: string) => (key === 'src/**/*.ts' ? { headSha: 'headSha', divergedFileHashes: {} } : null)) },
+    });
+
+    await runCli([...BASE_ARGV, '--id', 'lint', '--dry-run'], mocks);
+    expect(mocks.state.migrateState).not.toHaveBeenCalled();
+
+    prepareNextRun();
+    const firstRunMocks = createMocks();
+    await runCli([...BASE_ARGV, '--dry-run'], firstRunMocks);
+    expect(firstRunMocks.state.saveState).not.toHaveBeenCalled();
+  });
+
+  it('explains the detection and the decision, then runs the commands', async () => {
+    const mocks = changedMocks({
+      loadState: vi.fn().mockReturnValue({ headSha: 'headSha', divergedFileHashes: { 'src/a.ts': 'hash0' } }),
+    });
+    mocks.executor.executeAll.mockResolvedValue([{ command: 'echo ok', exitCode: 0, stdout: '', stderr: '' }]);
+
+    await runCli([...BASE_ARGV, '--explain'], mocks);
+
+    const output = stderrOutput();
+    expect(output).toContain('no match  README.md');
+    expect(output).toContain('modified   src/a.ts  hash0 -> hash1');
+    expect(output).toContain('decision: run: 1 file(s) changed matching "src/**/*.ts"');
+    expect(mocks.executor.executeAll).toHaveBeenCalledOnce();
+  });
+
+  it('explains why nothing runs', async () => {
+    const mocks = createMocks({
+      state: { loadState: vi.fn().mockReturnValue({ headSha: 'headSha', divergedFileHashes: {} }) },
+    });
+
+    await runCli([...BASE_ARGV, '--explain'], mocks);
+
+    expect(stderrOutput()).toContain('decision: skip: no matching file changed since the last success');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// --report: machine-readable reports
+// ---------------------------------------------------------------------------
+
+describe('--report', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'delta-gate-report-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes every requested report', async () => {
+    const mocks = createMocks({
+      git: { getDiffEntries: vi.fn().mockResolvedValue(modifiedEntries('src/a.ts')) },
+      state: {
+        computeHashes: vi.fn().mockResolvedValue({ 'src/a.ts': 'hash1' }),
+        findChangedFiles: vi.fn().mockReturnValue(['src/a.ts']),
+      },
+      executor: {
+        executeAll: vi.fn().mockResolvedValue([{ command: 'echo ok', exitCode: 1, stdout: '', stderr: 'boom', durationMs: 12 }]),
+      },
+    });
+    const jsonPath = join(dir, 'report.json');
+    const junitPath = join(dir, 'junit.xml');
+
+    await runCli([...BASE_ARGV, '--report', `json:${jsonPath}`, '--report', `junit:${junitPath}`], mocks);
+
+    const report = JSON.parse(readFileSync(jsonPath, 'utf-8'));
+    expect(report.success).toBe(false);
+    expect(report.watchers[0].commands[0]).toMatchObject({ command: 'echo ok', durationMs: 12 });
+    expect(report.watchers[0].durationMs).toEqual(expect.any(Number));
+    expect(readFileSync(junitPath, 'utf-8')).toContain('<failure message="exit code 1">');
+    expect(capturedExitCode).toBe(2);
+  });
+
+  it('rejects malformed report specs', async () => {
+    const mocks = createMocks();
+
+    await runCli([...BASE_ARGV, '--report', 'html:out.html'], mocks);
+
+    expect(capturedExitCode).toBe(1);
+    expect(mocks.git.getDiffEntries).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Termination signals
+// ---------------------------------------------------------------------------
+
+describe('termination signals', () => {
+  it('terminates the running commands and exits with 128 + the signal number', async () => {
+    const mocks = createMocks({
+      git: { getDiffEntries: vi.fn().mockResolvedValue(modifiedEntries('src/a.ts')) },
+      state: {
+        computeHashes: vi.fn().mockResolvedValue({ 'src/a.ts': 'hash1' }),
+        findChangedFiles: vi.fn().mockReturnValue(['src/a.ts']),
+      },
+      executor: {
+        executeAll: vi.fn().mockImplementation(async () => {
+          process.emit('SIGTERM', 'SIGTERM');
+          return [{ command: 'echo ok', exitCode: 143, stdout: '', stderr: '' }];
+        }),
+      },
+    });
+
+    await runCli(BASE_ARGV, mocks);
+
+    expect(mocks.executor.terminateRunningCommands).toHaveBeenCalledOnce();
+    expect(capturedExitCode).toBe(143);
+    expect(process.listenerCount('SIGTERM')).toBe(0);
+  });
+});
@@ -0,0 +1,255 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+vi.mock('node:fs/promises', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('node:fs/promises')>();
+  return { ...actual, access: vi.fn() };
+});
+
+import { access } from 'node:fs/promises';
+import { validateConfig, findConfigFile, loadConfig, CONFIG_FILE_NAMES } from '../config.js';
+
+const mockAccess = vi.mocked(access);
+
+beforeEach(() => {
+  mockAccess.mockReset();
+});
+
+// ---------------------------------------------------------------------------
+// validateConfig — pure function, no mocks needed
+// ---------------------------------------------------------------------------
+
+describe('validateConfig', () => {
+  it('returns the config when it is valid', () => {
+    const raw = {
+      stateFile: '.claude/custom.json',
+      watchers: [
+        { on: 'src/**/*.ts', exec: ['npm run lint'], execTimeout: 60, filesSeparator: ' ' },
+        { on: 'backend/**/*.kt', exec: ['./gradlew build'], stateFile: '.claude/backend.json' },
+      ],
+    };
+    expect(validateConfig(raw, 'config.json')).toEqual(raw);
+  });
+
+  it('does not add a stateFile key when the config does not declare one', () => {
+    const config = validateConfig({ watchers: [{ on: 'a', exec: ['b'] }] }, 'config.json');
+    expect(config).not.toHaveProperty('stateFile');
+  });
+
+  it('rejects a config that is not an object', () => {
+    expect(() => validateConfig([], 'config.json')).toThrow(/expected the config to be an object/);
+  });
+
+  it('rejects a missing or empty watchers array', () => {
+    expect(() => validateConfig({}, 'config.json')).toThrow(/watchers: expected a non-empty array/);
+    expect(() => validateConfig({ watchers: [] }, 'config.json')).toThrow(/watchers: expected a non-empty array/);
+  });
+
+  it('names the source file in the error message', () => {
+    expect(() => validateConfig({}, '/repo/delta-gate.config.json')).toThrow(
+      /Invalid config in \/repo\/delta-gate.config.json/,
+    );
+  });
+
+  it('reports the path of invalid watcher fields', () => {
+    const raw = { watchers: [{ on: 'a', exec: ['b'] }, { on: '', exec: [] }] };
+    let message = '';
+    try {
+      validateConfig(raw, 'config.json');
+    } catch (err) {
+      message = (err as Error).message;
+    }
+    expect(message).toContain('watchers[1].on: expected a non-empty glob pattern string');
+    expect(message).toContain('watchers[1].exec: expected a non-empty array of commands');
+    expect(message).not.toContain('watchers[0]');
+  });
+
+  it('rejects non-positive timeouts and non-string separators', () => {
+    const raw = { watchers: [{ on: 'a', exec: ['b'], execTimeout: 0, filesSeparator: 1 }] };
+    expect(() => validateConfig(raw, 'config.json')).toThrow(/watchers\[0\]\.execTimeout/);
+    expect(() => validateConfig(raw, 'config.json')).toThrow(/watchers\[0\]\.filesSeparator/);
+  });
+
+  it('accepts named commands with needs', () => {
+    const raw = { watchers: [{ on: 'a', exec: [{ run: 'npm run build', name: 'build' }, { run: 'npm test', needs: ['build'] }] }] };
+    expect(validateConfig(raw, 'config.json')).toEqual(raw);
+  });
+
+  it('reports malformed command objects', () => {
+    const raw = { watchers: [{ on: 'a', exec: [{ name: 'build' }, { run: 'b', needs: 'build' }, 3] }] };
+    expect(() => validateConfig(raw, 'config.json')).toThrow(/watchers\[0\]\.exec\[0\]\.run/);
+    expect(() => validateConfig(raw, 'config.json')).toThrow(/watchers\[0\]\.exec\[1\]\.needs/);
+    expect(() => validateConfig(raw, 'config.json')).toThrow(/watchers\[0\]\.exec\[2\]: expected a command string/);
+  });
+
+  it('accepts commands with a cwd, timeout, env and shell', () => {
+    const raw = {
+      watchers: [{
+        on: 'a',
+        exec: [{ run: 'npm test', cwd: 'frontend', timeout: 600, env: { CI: 'true' }, shell: '/bin/bash', exclusive: true }],
+      }],
+    };
+    expect(validateConfig(raw, 'config.json')).toEqual(raw);
+  });
+
+  it('reports malformed command options', () => {
+    const raw = { watchers: [{ on: 'a', exec: [{ run: 'b', cwd: '', timeout: -1, env: { CI: true }, shell: 3, exclusive: 'yes' }] }] };
+    let message = '';
+    try {
+      validateConfig(raw, 'config.json');
+    } catch (err) {
+      message = (err as Error).message;
+    }
+    expect(message).toContain('watchers[0].exec[0].cwd: expected a non-empty path string');
+    expect(message).toContain('watchers[0].exec[0].timeout: expected a positive number of seconds');
+    expect(message).toContain('watchers[0].exec[0].env: expected an object of string values');
+    expect(message).toContain('watchers[0].exec[0].shell: expected a non-empty string');
+    expect(message).toContain('watchers[0].exec[0].exclusive: expected a boolean');
+  });
+
+  it('validates retry options', () => {
+    expect(validateConfig({ watchers: [{ on: 'a', exec: [{ run: 'b', retries: 2, retryDelay: 0.5, retryOn: [1, 137] }] }] }, 'config.json'))
+      .toEqual({ watchers: [{ on: 'a', exec: [{ run: 'b', retries: 2, retryDelay: 0.5, retryOn: [1, 137] }] }] });
+    const raw = { watchers: [{ on: 'a', exec: [{ run: 'b', retries: 1.5, retryDelay: -1, retryOn: [] }] }] };
+    expect(() => validateConfig(raw, 'config.json')).toThrow(/exec\[0\]\.retries: expected a non-negative integer/);
+    expect(() => validateConfig(raw, 'config.json')).toThrow(/exec\[0\]\.retryDelay: expected a non-negative number/);
+    expect(() => validateConfig(raw, 'config.json')).toThrow(/exec\[0\]\.retryOn: expected a non-empty array of exit codes/);
+  });
+
+  it('reports command graph errors', () => {
+    const raw = { watchers: [{ on: 'a', exec: [{ run: 'npm test', needs: ['build'] }] }] };
+    expect(() => validateConfig(raw, 'config.json')).toThrow(
+      /watchers\[0\]\.exec: command "npm test" needs unknown command "build"/,
+    );
+  });
+
+  it('accepts arrays of on and ignore globs', () => {
+    const raw = { watchers: [{ on: ['src/**/*.ts', 'src/**/*.tsx'], ignore: ['**/*.generated.ts'], exec: ['b'] }] };
+    expect(validateConfig(raw, 'config.json')).toEqual(raw);
+  });
+
+  it('rejects empty glob lists', () => {
+    const raw = { watchers: [{ on: [], ignore: [''], exec: ['b'] }] };
+    expect(() => validateConfig(raw, 'config.json')).toThrow(/watchers\[0\]\.on: expected a non-empty glob/);
+    expect(() => validateConfig(raw, 'config.json')).toThrow(/watchers\[0\]\.ignore: expected a non-empty glob/);
+  });
+
+  it('rejects inputs that are not an array of globs', () => {
+    const raw = { watchers: [{ on: 'a', exec: ['b'], inputs: 'tsconfig.json' }] };
+    expect(() => validateConfig(raw, 'config.json')).toThrow(/watchers\[0\]\.inputs: expected a non-empty array/);
+  });
+
+  it('rejects duplicate watcher ids', () => {
+    const raw = { watchers: [{ id: 'lint', on: 'a', exec: ['b'] }, { id: 'lint', on: 'c', exec: ['d'] }] };
+    expect(() => validateConfig(raw, 'config.json')).toThrow(/watchers\[1\]\.id: duplicate id "lint"/);
+  });
+
+  it('rejects a non-boolean untracked flag', () => {
+    const raw = { watchers: [{ on: 'a', exec: ['b'], untracked: 'no' }] };
+    expect(() => validateConfig(raw, 'config.json')).toThrow(/watchers\[0\]\.untracked: expected a boolean/);
+  });
+
+  it('rejects unknown keys to catch typos', () => {
+    const raw = { watchers: [{ on: 'a', exce: ['b'], exec: ['b'] }], statefile: 'x' };
+    expect(() => validateConfig(raw, 'config.json')).toThrow(/watchers\[0\]\.exce: unknown key/);
+    expect(() => validateConfig(raw, 'config.json')).toThrow(/statefile: unknown key/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// findConfigFile
+// ---------------------------------------------------------------------------
+
+describe('findConfigFile', () => {
+  it('returns null when no config file exists at the git root', async () => {
+    mockAccess.mockRejectedValue(new Error('ENOENT'));
+    expect(await findConfigFile('/repo')).toBeNull();
+    expect(mockAccess).toHaveBeenCalledTimes(CONFIG_FILE_NAMES.length);
+  });
+
+  it('prefers the JSON config over module configs', async () => {
+    mockAccess.mockResolvedValue(undefined);
+    expect(await findConfigFile('/repo')).toBe(join('/repo', 'delta-gate.config.json'));
+  });
+
+  it('falls back to the next config file name', async () => {
+    mockAccess
+      .mockRejectedValueOnce(new Error('ENOENT'))
+      .mockResolvedValueOnce(undefined);
+    expect(await findConfigFile('/repo')).toBe(join('/repo', 'delta-gate.config.mjs'));
+  });
+
+  describe('TypeScript config', () => {
+    const features = process.features as { typescript?: string | false };
+    const original = Object.getOwnPropertyDescriptor(features, 'typescript');
+    const onlyTsConfig = () => {
+      mockAccess
+        .mockRejectedValueOnce(new Error('ENOENT'))
+        .mockRejectedValueOnce(new Error('ENOENT'))
+        .mockResolvedValueOnce(undefined);
+    };
+
+    afterEach(() => {
+      if (original) Object.defineProperty(features, 'typescript', original);
+      else delete features.typescript;
+    });
+
+    it('finds it when the runtime imports TypeScript', async () => {
+      Object.defineProperty(features, 'typescript', { value: 'strip', configurable: true });
+      onlyTsConfig();
+      expect(await findConfigFile('/repo')).toBe(join('/repo', 'delta-gate.config.ts'));
+    });
+
+    it('skips it, saying why, when the runtime cannot import TypeScript', async () => {
+      Object.defineProperty(features, 'typescript', { value: false, configurable: true });
+      const stderrSpy = vi.spyOn(process.stderr, 'write').mockReturnValue(true);
+      onlyTsConfig();
+
+      expect(await findConfigFile('/repo')).toBeNull();
+      expect(String(stderrSpy.mock.calls[0][0])).toMatch(/^delta-gate: ignoring delta-gate\.config\.ts: Node\.js \S+ cannot import TypeScript files/);
+      stderrSpy.mockRestore();
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// loadConfig — reads real files from a temporary directory
+// ---------------------------------------------------------------------------
+
+describe('loadConfig', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'delta-gate-config-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('loads a JSON config file', async () => {
+    const path = join(dir, 'delta-gate.config.json');
+    writeFileSync(path, JSON.stringify({ watchers: [{ on: 'src/**', exec: ['npm test'] }] }));
+    expect(await loadConfig(path)).toEqual({ watchers: [{ on: 'src/**', exec: ['npm test'] }] });
+  });
+
+  it('loads the default export of an ES module config file', async () => {
+    const path = join(dir, 'delta-gate.config.mjs');
+    writeFileSync(path, "export default { watchers: [{ on: 'src/**', exec: ['npm test'] }] };\n");
+    expect(await loadConfig(path)).toEqual({ watchers: [{ on: 'src/**', exec: ['npm test'] }] });
+  });
+
+  it('reports invalid JSON with the file path', async () => {
+    const path = join(dir, 'delta-gate.config.json');
+    writeFileSync(path, '{ nope');
+    await expect(loadConfig(path)).rejects.toThrow(/Invalid JSON in config file .*delta-gate.config.json/);
+  });
+
+  it('validates the loaded config', async () => {
+    const path = join(dir, 'delta-gate.config.json');
+    writeFileSync(path, JSON.stringify({ watchers: [{ on: 'src/**' }] }));
+    await expect(loadConfig(path)).rejects.toThrow(/watchers\[0\]\.exec/);
+  });
+});
@@ -1,34 +1,79 @@
-import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
 
 vi.mock('node:child_process', () => ({
-  exec: vi.fn(),
+  spawn: vi.fn(),
 }));
 
-import { exec } from 'node:child_process';
-import { interpolateTemplate, executeCommand, executeAll, printFailures } from '../executor.js';
-
-const mockExec = vi.mocked(exec);
-
-// promisify resolves with { stdout, stderr } only if the original function has
-// util.promisify.custom — which the real exec does but vi.fn() does not.
-// Passing a single object as the callback value makes promisify resolve with it directly.
-function stubExecSuccess(stdout: string, stderr = '') {
-  return mockExec.mockImplementationOnce((_cmd: any, _opts: any, callback: any) => {
-    callback(null, { stdout, stderr });
-    return undefined as any;
+import { EventEmitter } from 'node:events';
+import { spawn } from 'node:child_process';
+import {
+  interpolateTemplate,
+  executeCommand,
+  executeAll,
+  resolveCommands,
+  sequentialCommands,
+  findCommandGraphErrors,
+  formatFailures,
+  printFailures,
+  terminateRunningCommands,
+  KILL_GRACE_MS,
+} from '../executor.js';
+import { createLimiter } from '../limiter.js';
+
+const mockSpawn = vi.mocked(spawn);
+
+let nextPid = 4242;
+
+type FakeChild = EventEmitter & { pid: number; stdout: EventEmitter; stderr: EventEmitter };
+
+// A child process whose behaviour is scripted by `run`, called once the executor listens to it
+function stubSpawn(run: (child: FakeChild) => void = () => {}): FakeChild {
+  const child = Object.assign(new EventEmitter(), {
+    pid: nextPid++,
+    stdout: new EventEmitter(),
+    stderr: new EventEmitter(),
   });
+  mockSpawn.mockImplementationOnce(() => {
+    queueMicrotask(() => run(child));
+    return child as any;
+  });
+  return child;
 }
 
-function stubExecFailure(exitCode: number, stdout = '', stderr = '') {
-  return mockExec.mockImplementationOnce((_cmd: any, _opts: any, callback: any) => {
-    const err = Object.assign(new Error('Command failed'), { code: exitCode, stdout, stderr });
-    callback(err, { stdout, stderr });
-    return undefined as any;
+function stubSpawnExit(exitCode: number, stdout = '', stderr = '') {
+  return stubSpawn((child) => {
+    if (stdout) child.stdout.emit('data', Buffer.from(stdout));
+    if (stderr) child.stderr.emit('data', Buffer.from(stderr));
+    child.emit('close', exitCode, null);
   });
 }
 
+function stubSpawnSuccess(stdout: string, stderr = '') {
+  return stubSpawnExit(0, stdout, stderr);
+}
+
+function stubSpawnFailure(exitCode: number, stdout = '', stderr = '') {
+  return stubSpawnExit(exitCode, stdout, stderr);
+}
+
+// Make signals sent to the process group of a fake child close it, unless ignored
+function spyOnKill(children: FakeChild[], ignored: NodeJS.Signals[] = []) {
+  return vi.spyOn(process, 'kill').mockImplementation(((pid: number, signal: NodeJS.Signals) => {
+    const child = children.find((c) => -c.pid === pid);
+    if (child && !ignored.includes(signal)) {
+      child.emit('close', null, signal);
+    }
+    return true;
+  }) as any);
+}
+
 beforeEach(() => {
-  mockExec.mockReset();
+  mockSpawn.mockReset();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
 });
 
 // ---------------------------------------------------------------------------
@@ -68,121 +113,183 @@ describe('interpolateTemplate', () => {
 
 describe('executeCommand', () => {
   it('returns exitCode 0 and captured output on success', async () => {
-    stubExecSuccess('hello stdout', 'some stderr');
+    stubSpawnSuccess('hello stdout', 'some stderr');
     const result = await executeCommand('echo hello', 5000);
     expect(result).toEqual({
       command: 'echo hello',
       exitCode: 0,
       stdout: 'hello stdout',
       stderr: 'some stderr',
+      durationMs: expect.any(Number),
     });
   });
 
   it('returns non-zero exitCode and output on failure', async () => {
-    stubExecFailure(1, 'fail stdout', 'fail stderr');
+    stubSpawnFailure(1, 'fail stdout', 'fail stderr');
     const result = await executeCommand('false', 5000);
     expect(result).toEqual({
       command: 'false',
       exitCode: 1,
       stdout: 'fail stdout',
       stderr: 'fail stderr',
+      durationMs: expect.any(Number),
     });
   });
 
   it('uses the provided exit code from the error', async () => {
-    stubExecFailure(42, '', 'error message');
+    stubSpawnFailure(42, '', 'error message');
     const result = await executeCommand('exit 42', 5000);
     expect(result.exitCode).toBe(42);
   });
 
-  it('defaults exitCode to 1 when error has no code', async () => {
-    mockExec.mockImplementationOnce((_cmd: any, _opts: any, callback: any) => {
-      callback(new Error('no code'), '', '');
-      return undefined as any;
-    });
+  it('returns exitCode 2 and the error when the command cannot be started', async () => {
+    stubSpawn((child) => child.emit('error', new Error('spawn /bin/sh ENOENT')));
     const result = await executeCommand('bad', 5000);
     expect(result.exitCode).toBe(2);
+    expect(result.stderr).toBe('spawn /bin/sh ENOENT');
   });
 
-  it('returns empty strings for stdout/stderr when missing from error', async () => {
-    mockExec.mockImplementationOnce((_cmd: any, _opts: any, callback: any) => {
-      const err = Object.assign(new Error('fail'), { code: 1 });
-      callback(err, undefined, undefined);
-      return undefined as any;
-    });
+  it('returns empty strings for stdout/stderr when the command prints nothing', async () => {
+    stubSpawnFailure(1);
     const result = await executeCommand('bad', 5000);
     expect(result.stdout).toBe('');
     expect(result.stderr).toBe('');
   });
 
+  it('reports a command killed by a signal with the shell exit code', async () => {
+    stubSpawn((child) => child.emit('close', null, 'SIGTERM'));
+    const result = await executeCommand('cmd', 5000);
+    expect(result.exitCode).toBe(143);
+    expect(result).not.toHaveProperty('timedOut');
+  });
+
   it('stores the original (non-interpolated) command in the result', async () => {
-    stubExecSuccess('');
+    stubSpawnSuccess('');
     const result = await executeCommand('lint {{FILES}}', 5000, { FILES: 'a.ts' });
     expect(result.command).toBe('lint {{FILES}}');
   });
 
   it('executes the interpolated command string', async () => {
-    stubExecSuccess('');
+    stubSpawnSuccess('');
     await executeCommand('lint {{FILES}}', 5000, { ON_CHANGES_RUN_CHANGED_FILES: 'a.ts b.ts' });
-    expect(mockExec).toHaveBeenCalledWith(
+    expect(mockSpawn).toHaveBeenCalledWith(
       'lint {{FILES}}', // unknown placeholder stays intact
       expect.any(Object),
-      expect.any(Function),
     );
   });
 
   it('interpolates {{VAR}} placeholders before executing', async () => {
-    stubExecSuccess('');
+    stubSpawnSuccess('');
     await executeCommand('npm run typecheck {{ON_CHANGES_RUN_CHANGED_FILES}}', 5000, {
       ON_CHANGES_RUN_CHANGED_FILES: 'src/a.ts src/b.ts',
     });
-    expect(mockExec).toHaveBeenCalledWith(
+    expect(mockSpawn).toHaveBeenCalledWith(
       'npm run typecheck src/a.ts src/b.ts',
       expect.any(Object),
-      expect.any(Function),
     );
   });
 
   it('leaves unknown {{PLACEHOLDERS}} intact in the executed command', async () => {
-    stubExecSuccess('');
+    stubSpawnSuccess('');
     await executeCommand('cmd {{UNKNOWN_VAR}}', 5000, {});
-    expect(mockExec).toHaveBeenCalledWith(
+    expect(mockSpawn).toHaveBeenCalledWith(
       'cmd {{UNKNOWN_VAR}}',
       expect.any(Object),
-      expect.any(Function),
     );
   });
 
-  it('passes timeout to exec options', async () => {
-    stubExecSuccess('');
+  it('runs the command through a shell, in its own process group', async () => {
+    stubSpawnSuccess('');
     await executeCommand('cmd', 12345);
-    const callOpts = vi.mocked(mockExec).mock.calls[0][1] as any;
-    expect(callOpts.timeout).toBe(12345);
+    const callOpts = mockSpawn.mock.calls[0][1] as any;
+    expect(callOpts.shell).toBe(true);
+    expect(callOpts.detached).toBe(true);
+    expect(callOpts).not.toHaveProperty('timeout');
   });
 
-  it('passes cwd to exec options when provided', async () => {
-    stubExecSuccess('');
+  it('passes cwd to spawn options when provided', async () => {
+    stubSpawnSuccess('');
     await executeCommand('cmd', 5000, {}, '/some/project/root');
-    const callOpts = vi.mocked(mockExec).mock.calls[0][1] as any;
+    const callOpts = mockSpawn.mock.calls[0][1] as any;
     expect(callOpts.cwd).toBe('/some/project/root');
   });
 
-  it('does not set cwd in exec options when not provided', async () => {
-    stubExecSuccess('');
+  it('adds env to the inherited environment and passes the shell', async () => {
+    stubSpawnSuccess('');
+    await executeCommand('cmd', 5000, {}, undefined, { env: { CI: 'true' }, shell: '/bin/bash' });
+    const callOpts = mockSpawn.mock.calls[0][1] as any;
+    expect(callOpts.env).toEqual({ ...process.env, CI: 'true' });
+    expect(callOpts.shell).toBe('/bin/bash');
+  });
+
+  it('does not set cwd in spawn options when not provided', async () => {
+    stubSpawnSuccess('');
     await executeCommand('cmd', 5000);
-    const callOpts = vi.mocked(mockExec).mock.calls[0][1] as any;
+    const callOpts = mockSpawn.mock.calls[0][1] as any;
     expect(callOpts.cwd).toBeUndefined();
   });
 });
 
+// ---------------------------------------------------------------------------
+// executeCommand — timeouts and termination
+// ---------------------------------------------------------------------------
+
+describe('executeCommand termination', () => {
+  it('reports a timeout as timedOut after SIGTERMing the process group', async () => {
+    vi.useFakeTimers();
+    const child = stubSpawn((c) => c.stdout.emit('data', Buffer.from('partial')));
+    const kill = spyOnKill([child]);
+
+    const pending = executeCommand('sleep 100', 1000);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(kill).toHaveBeenCalledWith(-child.pid, 'SIGTERM');
+    expect(await pending).toEqual({
+      command: 'sleep 100',
+      exitCode: null,
+      stdout: 'partial',
+      stderr: '',
+      timedOut: true,
+      durationMs: expect.any(Number),
+    });
+  });
+
+  it('SIGKILLs the process group when it outlives the grace period', async () => {
+    vi.useFakeTimers();
+    const child = stubSpawn();
+    const kill = spyOnKill([child], ['SIGTERM']);
+
+    const pending = executeCommand('trap "" TERM; sleep 100', 1000);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(kill.mock.calls.map((c) => c[1])).toEqual(['SIGTERM']);
+
+    await vi.advanceTimersByTimeAsync(KILL_GRACE_MS);
+    expect(kill.mock.calls.map((c) => c[1])).toEqual(['SIGTERM', 'SIGKILL']);
+    expect(await pending).toMatchObject({ exitCode: null, timedOut: true });
+  });
+
+  it('terminates every running command on request', async () => {
+    const kill = spyOnKill([stubSpawn(), stubSpawn()]);
+
+    const pending = executeAll(['sleep 100', 'sleep 200'], 60000, {}, undefined, { limiter: createLimiter(2) });
+    await new Promise((r) => setImmediate(r));
+    await terminateRunningCommands();
+
+    expect(kill).toHaveBeenCalledTimes(2);
+    const results = await pending;
+    expect(results.map((r) => r.exitCode)).toEqual([143, 143]);
+    expect(results.every((r) => !r.timedOut)).toBe(true);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // executeAll
 // ---------------------------------------------------------------------------
 
 describe('executeAll', () => {
   it('returns results for all commands', async () => {
-    stubExecSuccess('out1');
-    stubExecSuccess('out2');
+    stubSpawnSuccess('out1');
+    stubSpawnSuccess('out2');
     const results = await executeAll(['cmd1', 'cmd2'], 5000);
     expect(results).toHaveLength(2);
     expect(results[0].command).toBe('cmd1');
@@ -190,8 +297,8 @@ describe('executeAll', () => {
   });
 
   it('returns results for both successes and failures', async () => {
-    stubExecSuccess('ok');
-    stubExecFailure(1, '', 'err');
+    stubSpawnSuccess('ok');
+    stubSpawnFailure(1, '', 'err');
     const results = await executeAll(['ok-cmd', 'fail-cmd'], 5000);
     expect(results[0].exitCode).toBe(0);
     expect(results[1].exitCode).toBe(1);
@@ -202,12 +309,278 @@ describe('executeAll', () => {
   });
 
   it('passes template vars to all commands for interpolation', async () => {
-    stubExecSuccess('');
-    stubExecSuccess('');
+    stubSpawnSuccess('');
+    stubSpawnSuccess('');
     const templateVars = { ON_CHANGES_RUN_CHANGED_FILES: 'src/a.ts' };
     await executeAll(['lint {{ON_CHANGES_RUN_CHANGED_FILES}}', 'check {{ON_CHANGES_RUN_CHANGED_FILES}}'], 5000, templateVars);
-    expect(mockExec.mock.calls[0][0]).toBe('lint src/a.ts');
-    expect(mockExec.mock.calls[1][0]).toBe('check src/a.ts');
+    expect(mockSpawn.mock.calls[0][0]).toBe('lint src/a.ts');
+    expect(mockSpawn.mock.calls[1][0]).toBe('check src/a.ts');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Command dependency graph
+// ---------------------------------------------------------------------------
+
+describe('resolveCommands', () => {
+  it('names plain string commands after their command line', () => {
+    expect(resolveCommands(['npm test'])).toEqual([{ run: 'npm test', name: 'npm test', needs: [] }]);
+  });
+
+  it('keeps command options and leaves unset ones out', () => {
+    expect(resolveCommands([{ run: 'npm test', cwd: 'frontend', timeout: 60 }])).toEqual([
+      { run: 'npm test', name: 'npm test', needs: [], cwd: 'frontend', timeout: 60 },
+    ]);
+    expect(Object.keys(resolveCommands([{ run: 'npm test' }])[0])).toEqual(['run', 'name', 'needs']);
+  });
+
+  it('keeps explicit names and needs', () => {
+    expect(resolveCommands([{ run: 'npm test', name: 'test', needs: ['build'] }])).toEqual([
+      { run: 'npm test', name: 'test', needs: ['build'] },
+    ]);
+  });
+});
+
+describe('sequentialCommands', () => {
+  it('makes every command need the previous one', () => {
+    expect(sequentialCommands(['a', 'b', 'c'])).toEqual([
+      { run: 'a', name: 'a', needs: [] },
+      { run: 'b', name: 'b', needs: ['a'] },
+      { run: 'c', name: 'c', needs: ['b'] },
+    ]);
+  });
+});
+
+describe('findCommandGraphErrors', () => {
+  it('returns no error for a valid graph', () => {
+    expect(findCommandGraphErrors(resolveCommands(['a', { run: 'b', needs: ['a'] }]))).toEqual([]);
+  });
+
+  it('reports duplicate names', () => {
+    expect(findCommandGraphErrors(resolveCommands(['a', 'a']))).toEqual(['duplicate command name "a"']);
+  });
+
+  it('reports unknown needs', () => {
+    expect(findCommandGraphErrors(resolveCommands([{ run: 'b', needs: ['a'] }]))).toEqual([
+      'command "b" needs unknown command "a"',
+    ]);
+  });
+
+  it('reports dependency cycles', () => {
+    const errors = findCommandGraphErrors(resolveCommands([
+      { run: 'a', needs: ['c'] },
+      { run: 'b', needs: ['a'] },
+      { run: 'c', needs: ['b'] },
+    ]));
+    expect(errors).toEqual(['dependency cycle: a -> c -> b -> a']);
+  });
+});
+
+describe('executeAll with needs', () => {
+  it('runs a command after the commands it needs succeeded', async () => {
+    stubSpawnSuccess('built');
+    stubSpawnSuccess('tested');
+    const results = await executeAll([{ run: 'npm test', needs: ['npm run build'] }, 'npm run build'], 5000);
+    expect(mockSpawn.mock.calls.map((c) => c[0])).toEqual(['npm run build', 'npm test']);
+    expect(results.map((r) => r.command)).toEqual(['npm test', 'npm run build']);
+    expect(results.map((r) => r.exitCode)).toEqual([0, 0]);
+  });
+
+  it('skips dependents of a failed command, transitively', async () => {
+    stubSpawnFailure(1, '', 'build error');
+    const results = await executeAll([
+      { run: 'npm run build', name: 'build' },
+      { run: 'npm test', name: 'test', needs: ['build'] },
+      { run: 'npm run e2e', name: 'e2e', needs: ['test'] },
+    ], 5000);
+    expect(mockSpawn).toHaveBeenCalledOnce();
+    expect(results[0]).toMatchObject({ name: 'build', exitCode: 1 });
+    expect(results[1]).toEqual({ command: 'npm test', name: 'test', exitCode: null, stdout: '', stderr: '', skipped: true });
+    expect(results[2]).toMatchObject({ name: 'e2e', skipped: true });
+  });
+
+  it('still runs independent branches when another branch fails', async () => {
+    stubSpawnFailure(1);
+    stubSpawnSuccess('linted');
+    const results = await executeAll(['npm run build', 'npm run lint', { run: 'npm test', needs: ['npm run build'] }], 5000);
+    expect(results.map((r) => r.exitCode)).toEqual([1, 0, null]);
+  });
+
+  it('throws on an invalid command graph without running anything', async () => {
+    await expect(executeAll([{ run: 'a', needs: ['missing'] }], 5000)).rejects.toThrow(
+      /Invalid command graph: command "a" needs unknown command "missing"/,
+    );
+    expect(mockSpawn).not.toHaveBeenCalled();
+  });
+});
+
+describe('executeAll with a limiter', () => {
+  it('waits for a free slot before starting a command', async () => {
+    const first = stubSpawn();
+    stubSpawnSuccess('');
+
+    const pending = executeAll(['npm run lint', 'npm test'], 5000, {}, undefined, { limiter: createLimiter(1) });
+    await new Promise((r) => setImmediate(r));
+    expect(mockSpawn).toHaveBeenCalledOnce();
+
+    first.emit('close', 0, null);
+    expect((await pending).map((r) => r.exitCode)).toEqual([0, 0]);
+    expect(mockSpawn).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not hold a slot while waiting for needed commands', async () => {
+    stubSpawnSuccess('');
+    stubSpawnSuccess('');
+    const results = await executeAll([{ run: 'npm test', needs: ['npm run build'] }, 'npm run build'], 5000, {}, undefined, {
+      limiter: createLimiter(1),
+    });
+    expect(results.map((r) => r.exitCode)).toEqual([0, 0]);
+  });
+});
+
+describe('executeAll with retries', () => {
+  it('retries a failing command and reports a flaky pass with every attempt', async () => {
+    stubSpawnFailure(1, '', 'connection refused');
+    stubSpawnSuccess('ok');
+    const [result] = await executeAll([{ run: 'npm run it', retries: 2 }], 5000);
+    expect(mockSpawn).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({ exitCode: 0, stdout: 'ok', flaky: true });
+    expect(result.attempts).toEqual([
+      { exitCode: 1, stdout: '', stderr: 'connection refused', durationMs: expect.any(Number) },
+      { exitCode: 0, stdout: 'ok', stderr: '', durationMs: expect.any(Number) },
+    ]);
+  });
+
+  it('gives up after the declared retries', async () => {
+    stubSpawnFailure(1);
+    stubSpawnFailure(1);
+    stubSpawnFailure(3, '', 'still failing');
+    const [result] = await executeAll([{ run: 'npm run it', retries: 2 }], 5000);
+    expect(result).toMatchObject({ exitCode: 3, stderr: 'still failing' });
+    expect(result.attempts).toHaveLength(3);
+    expect(result).not.toHaveProperty('flaky');
+  });
+
+  it('only retries the exit codes listed in retryOn', async () => {
+    stubSpawnFailure(1);
+    const [result] = await executeAll([{ run: 'npm run it', retries: 2, retryOn: [137] }], 5000);
+    expect(mockSpawn).toHaveBeenCalledOnce();
+    expect(result).not.toHaveProperty('attempts');
+  });
+
+  it('waits retryDelay seconds between attempts', async () => {
+    vi.useFakeTimers();
+    stubSpawnFailure(1);
+    stubSpawnSuccess('');
+    const pending = executeAll([{ run: 'npm run it', retries: 1, retryDelay: 2 }], 5000);
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(mockSpawn).toHaveBeenCalledOnce();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(mockSpawn).toHaveBeenCalledTimes(2);
+    expect((await pending)[0].flaky).toBe(true);
+  });
+});
+
+describe('executeAll with up to date commands', () => {
+  it('reports them as passed without running them, and still runs their dependents', async () => {
+    stubSpawnSuccess('tested');
+    const results = await executeAll([
+      { run: 'npm run build', name: 'build' },
+      { run: 'npm test', needs: ['build'] },
+    ], 5000, {}, undefined, { upToDate: new Set(['build']) });
+
+    expect(mockSpawn).toHaveBeenCalledOnce();
+    expect(mockSpawn.mock.calls[0][0]).toBe('npm test');
+    expect(results[0]).toEqual({ command: 'npm run build', name: 'build', exitCode: 0, stdout: '', stderr: '', upToDate: true });
+    expect(results[1]).toMatchObject({ exitCode: 0, stdout: 'tested' });
+  });
+});
+
+describe('executeAll with failFast', () => {
+  it('cancels running and pending commands on the first failure', async () => {
+    stubSpawnFailure(1, '', 'type error');
+    const kill = spyOnKill([stubSpawn()]);
+
+    const results = await executeAll([
+      'npm run typecheck',
+      { run: 'npm test', name: 'test' },
+      { run: 'npm run e2e', needs: ['test'] },
+    ], 5000, {}, undefined, { failFast: true, limiter: createLimiter(2) });
+
+    expect(kill).toHaveBeenCalledOnce();
+    expect(mockSpawn).toHaveBeenCalledTimes(2);
+    expect(results[0]).toMatchObject({ exitCode: 1, stderr: 'type error' });
+    expect(results[1]).toMatchObject({ name: 'test', exitCode: null, cancelled: true });
+    expect(results[2]).toEqual({ command: 'npm run e2e', exitCode: null, stdout: '', stderr: '', cancelled: true });
+  });
+
+  it('still skips the dependents of the failed command', async () => {
+    stubSpawnFailure(1);
+    const results = await executeAll(['npm run build', { run: 'npm test', needs: ['npm run build'] }], 5000, {}, undefined, {
+      failFast: true,
+    });
+    expect(results[1]).toMatchObject({ skipped: true });
+    expect(results[1]).not.toHaveProperty('cancelled');
+  });
+
+  it('lets the other commands finish without failFast', async () => {
+    stubSpawnFailure(1);
+    const slow = stubSpawn((child) => setImmediate(() => child.emit('close', 0, null)));
+    const kill = spyOnKill([slow]);
+
+    const results = await executeAll(['npm run typecheck', 'npm test'], 5000);
+
+    expect(kill).not.toHaveBeenCalled();
+    expect(results.map((r) => r.exitCode)).toEqual([1, 0]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// formatFailures
+// ---------------------------------------------------------------------------
+
+describe('formatFailures', () => {
+  it('returns the same text printFailures writes to stderr', () => {
+    const failures = [{ command: 'cmd', exitCode: 1, stdout: 'out', stderr: 'err' }];
+    const spy = vi.spyOn(process.stderr, 'write').mockReturnValue(true as any);
+    printFailures(failures);
+    const output = spy.mock.calls.map((c) => c[0]).join('');
+    spy.mockRestore();
+    expect(formatFailures(failures)).toBe(output);
+  });
+
+  it('returns an empty string when there are no failures', () => {
+    expect(formatFailures([])).toBe('');
+  });
+
+  it('reports timed out commands with their timeout', () => {
+    const text = formatFailures([{ command: 'npm test', exitCode: null, stdout: 'partial', stderr: '', timedOut: true, timeout: 60 }]);
+    expect(text).toContain('TIMED OUT: npm test (killed after 60s)');
+    expect(text).toContain('partial');
+  });
+
+  it('tells how many attempts a failed command took', () => {
+    const attempt = { exitCode: 1, stdout: '', stderr: '' };
+    const text = formatFailures([{ command: 'npm run it', ...attempt, attempts: [attempt, attempt] }]);
+    expect(text).toContain('FAILED: npm run it (exit code 1, 2 attempts)');
+  });
+
+  it('only notes which commands were cancelled', () => {
+    const text = formatFailures([
+      { command: 'npm run typecheck', exitCode: 1, stdout: '', stderr: 'type error' },
+      { command: 'npm test', exitCode: null, stdout: 'partial', stderr: '', cancelled: true },
+      { command: 'npm run e2e', exitCode: null, stdout: '', stderr: '', cancelled: true },
+    ]);
+    expect(text).toContain('FAILED: npm run typecheck');
+    expect(text).toContain('CANCELLED after the first failure (--fail-fast): npm test, npm run e2e');
+    expect(text).not.toContain('partial');
+  });
+
+  it('lists skipped commands without output', () => {
+    const text = formatFailures([{ command: 'npm test', exitCode: null, stdout: '', stderr: '', skipped: true }]);
+    expect(text).toContain('SKIPPED: npm test');
+    expect(text).not.toContain('FAILED');
   });
 });
 
@@ -271,3 +644,35 @@ describe('printFailures', () => {
     spy.mockRestore();
   });
 });
+
+// ---------------------------------------------------------------------------
+// executeAll — per-command options
+// ---------------------------------------------------------------------------
+
+describe('executeAll with command options', () => {
+  it('resolves cwd from the given root and applies the command timeout', async () => {
+    vi.useFakeTimers();
+    const child = stubSpawn();
+    const kill = spyOnKill([child]);
+    const pending = executeAll([{ run: 'npm test', cwd: 'frontend', timeout: 600 }], 5000, {}, '/repo');
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(kill).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(595000);
+    expect(kill).toHaveBeenCalledWith(-child.pid, 'SIGTERM');
+
+    const callOpts = mockSpawn.mock.calls[0][1] as any;
+    expect(callOpts.cwd).toBe('/repo/frontend');
+    expect(await pending).toEqual([expect.objectContaining({ command: 'npm test', timeout: 600, cwd: 'frontend', timedOut: true })]);
+  });
+
+  it('reports the default timeout and the declared env', async () => {
+    stubSpawnSuccess('');
+    stubSpawnSuccess('');
+    const results = await executeAll(['npm run lint', { run: 'npm test', env: { CI: 'true' } }], 5000, {}, '/repo');
+    expect(results[0].timeout).toBe(5);
+    expect(results[0]).not.toHaveProperty('env');
+    expect(results[1].env).toEqual({ CI: 'true' });
+    expect((mockSpawn.mock.calls[1][1] as any).cwd).toBe('/repo');
+  });
+});
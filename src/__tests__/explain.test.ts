@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import { formatExplanation, formatDryRunCommands } from '../explain.js';
+import type { ChangeDetection, WatcherTarget } from '../core.js';
+
+const target: WatcherTarget = {
+  key: 'lint',
+  pattern: 'src/**/*.ts',
+  patterns: { include: ['src/**/*.ts'], exclude: [] },
+  stateFile: '.claude/delta-gate.state.local.json',
+  untracked: true,
+};
+
+function detection(overrides: Partial<ChangeDetection> = {}): ChangeDetection {
+  return {
+    gitRoot: '/repo',
+    statePath: '/repo/.claude/delta-gate.state.local.json',
+    headSha: 'bbbbbbbbbbbb',
+    previousState: {
+      headSha: 'bbbbbbbbbbbb',
+      divergedFileHashes: { 'src/a.ts': 'aaaaaaaaaaaaaaaa', 'src/old.ts': 'cccccccccccccccc' },
+      lastSuccessAt: '2026-10-19T10:00:00.000Z',
+      fingerprint: 'ffffffffffffffff',
+    },
+    diffFiles: ['src/a.ts', 'src/new.ts', 'README.md'],
+    commitDiffFiles: [],
+    renames: [],
+    matchingFiles: ['src/a.ts', 'src/new.ts'],
+    currentHashes: { 'src/a.ts': 'dddddddddddddddd', 'src/new.ts': 'eeeeeeeeeeeeeeee' },
+    snapshotHashes: { 'src/a.ts': 'dddddddddddddddd', 'src/new.ts': 'eeeeeeeeeeeeeeee' },
+    fingerprint: 'ffffffffffffffff',
+    fingerprintChanged: false,
+    changedFiles: ['src/a.ts', 'src/new.ts', 'src/old.ts'],
+    changes: { added: ['src/new.ts'], modified: ['src/a.ts', 'src/old.ts'], deleted: [], renamed: [] },
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// formatExplanation — pure function, no mocks needed
+// ---------------------------------------------------------------------------
+
+describe('formatExplanation', () => {
+  it('tells which diff files match the watcher globs', () => {
+    const output = formatExplanation(target, detection(), 'run');
+    expect(output).toContain('    match     src/a.ts\n');
+    expect(output).toContain('    no match  README.md\n');
+  });
+
+  it('shows the previous and current hash of every file', () => {
+    const output = formatExplanation(target, detection(), 'run');
+    expect(output).toContain('modified   src/a.ts  aaaaaaaaaaaa -> dddddddddddd');
+    expect(output).toContain('new        src/new.ts  (none) -> eeeeeeeeeeee');
+    // No longer diverging from HEAD: reverted, as the commands see it
+    expect(output).toContain('modified   src/old.ts  cccccccccccc -> (none)');
+  });
+
+  it('labels the files as the change detection classified them', () => {
+    const output = formatExplanation(target, detection({
+      previousState: { headSha: 'bbbbbbbbbbbb', divergedFileHashes: { 'src/old.ts': 'cccccccccccccccc', 'src/gone.ts': 'aaaaaaaaaaaaaaaa' } },
+      currentHashes: { 'src/new.ts': 'cccccccccccccccc' },
+      changes: { added: [], modified: [], deleted: ['src/gone.ts'], renamed: [{ from: 'src/old.ts', to: 'src/new.ts' }] },
+    }), 'run');
+    expect(output).toContain('renamed    src/new.ts  (none) -> cccccccccccc');
+    expect(output).toContain('renamed    src/old.ts  cccccccccccc -> (none)');
+    expect(output).toContain('deleted    src/gone.ts  aaaaaaaaaaaa -> (none)');
+  });
+
+  it('lists the files brought by the commits when HEAD moved', () => {
+    const output = formatExplanation(target, detection({
+      headSha: 'cafebabe0000',
+      commitDiffFiles: ['src/a.ts', 'docs/x.md'],
+    }), 'run');
+    expect(output).toContain('HEAD moved from bbbbbbb to cafebab');
+    expect(output).toMatch(/commits in between:\n {4}match {5}src\/a\.ts\n {4}no match {2}docs\/x\.md/);
+  });
+
+  it('explains how rewritten history was compared', () => {
+    const viaMergeBase = formatExplanation(target, detection({
+      headSha: 'cafebabe0000',
+      commitDiffFiles: ['src/a.ts'],
+      historyFallback: { kind: 'merge-base', mergeBase: '123456789abc' },
+    }), 'run');
+    expect(viaMergeBase).toContain('no longer an ancestor of HEAD (amend, rebase or reset), compared through their merge-base 1234567');
+
+    const full = formatExplanation(target, detection({
+      headSha: 'cafebabe0000',
+      commitDiffFiles: ['src/a.ts', 'docs/x.md'],
+      historyFallback: { kind: 'full' },
+    }), 'run');
+    expect(full).toMatch(/re-checking every matching file, files to re-check:\n {4}match {5}src\/a\.ts\n {2}matching/);
+  });
+
+  it('lists the renames git detected', () => {
+    expect(formatExplanation(target, detection(), 'run')).not.toContain('renames detected by git');
+    const output = formatExplanation(target, detection({ renames: [{ from: 'lib/old.ts', to: 'src/new.ts' }] }), 'run');
+    expect(output).toContain('  renames detected by git:\n    lib/old.ts -> src/new.ts\n');
+  });
+
+  it('says when only staged files were considered', () => {
+    expect(formatExplanation(target, detection({ staged: true }), 'run')).toContain('files staged for commit (git diff --cached), hashed as staged:');
+  });
+
+  it('lists the files changed since the base ref', () => {
+    const output = formatExplanation(target, detection({ since: { ref: 'origin/main', files: ['src/a.ts', 'docs/x.md'] } }), 'run');
+    expect(output).toMatch(/since HEAD forked from origin\/main \(git diff origin\/main\.\.\.HEAD\):\n {4}match {5}src\/a\.ts\n {4}no match {2}docs\/x\.md/);
+  });
+
+  it('says when HEAD did not move', () => {
+    expect(formatExplanation(target, detection(), 'run')).toContain('HEAD did not move (bbbbbbb)');
+  });
+
+  it('reports a first run and the decision', () => {
+    const output = formatExplanation(target, detection({ previousState: null }), 'skip: nothing');
+    expect(output).toContain('previous state: none (first run)');
+    expect(output).toContain('gate fingerprint: not recorded yet');
+    expect(output.trimEnd().endsWith('decision: skip: nothing')).toBe(true);
+  });
+
+  it('reports a changed fingerprint', () => {
+    const output = formatExplanation(target, detection({ fingerprint: '0000000000000000', fingerprintChanged: true }), 'run');
+    expect(output).toContain('gate fingerprint: changed (ffffffffffff -> 000000000000)');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// formatDryRunCommands
+// ---------------------------------------------------------------------------
+
+describe('formatDryRunCommands', () => {
+  it('interpolates template variables and shows names and dependencies', () => {
+    const output = formatDryRunCommands(
+      [
+        { run: 'npm run build', name: 'build', needs: [], retries: 2 },
+        { run: 'eslint {{ON_CHANGES_RUN_CHANGED_FILES}}', name: 'eslint {{ON_CHANGES_RUN_CHANGED_FILES}}', needs: ['build'] },
+        { run: 'npm test', name: 'npm test', needs: ['build'], cwd: 'frontend', exclusive: true },
+      ],
+      { ON_CHANGES_RUN_CHANGED_FILES: 'src/a.ts src/b.ts' },
+    );
+    expect(output).toBe(
+      '  [build] npm run build (retried up to 2 time(s))\n  eslint src/a.ts src/b.ts (after build)\n  npm test (in frontend, after build, exclusive)\n',
+    );
+  });
+});
@@ -1,11 +1,31 @@
 import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { join } from 'node:path';
 
 vi.mock('node:child_process', () => ({
   execFile: vi.fn(),
 }));
 
 import { execFile } from 'node:child_process';
-import { getGitRoot, getHeadSha, getDiffFiles, getDiffFilesBetweenCommits } from '../git.js';
+import {
+  getGitRoot,
+  getGitCommonDir,
+  getGitHooksDir,
+  getHeadSha,
+  parseNameStatus,
+  getDiffEntries,
+  getDiffEntriesBetweenCommits,
+  getDiffEntriesSince,
+  getUntrackedFiles,
+  getRepoFiles,
+  getStagedEntries,
+  getIndexBlobs,
+  getTreeBlobs,
+  readBlob,
+  checkoutIndex,
+  isCommitAvailable,
+  isAncestor,
+  getMergeBase,
+} from '../git.js';
 
 const mockExecFile = vi.mocked(execFile);
 
@@ -19,6 +39,14 @@ function stubExecFile(stdout: string, stderr = '') {
   });
 }
 
+// Same as stubExecFile, for commands run with execFile options
+function stubExecFileWithOptions(stdout: string | Buffer) {
+  return mockExecFile.mockImplementationOnce((_cmd: any, _args: any, _opts: any, callback: any) => {
+    callback(null, { stdout, stderr: '' });
+    return undefined as any;
+  });
+}
+
 function stubExecFileError(error: Error) {
   return mockExecFile.mockImplementationOnce((_cmd: any, _args: any, callback: any) => {
     callback(error, { stdout: '', stderr: '' });
@@ -52,6 +80,27 @@ describe('getGitRoot', () => {
   });
 });
 
+describe('getGitCommonDir', () => {
+  it('resolves the git directory printed relative to the current directory', async () => {
+    stubExecFile('.git\n');
+    expect(await getGitCommonDir()).toBe(join(process.cwd(), '.git'));
+    expect(mockExecFile).toHaveBeenCalledWith('git', ['rev-parse', '--git-common-dir'], expect.any(Function));
+  });
+
+  it('keeps an absolute git directory, as printed from a linked worktree', async () => {
+    stubExecFile('/home/user/project/.git\n');
+    expect(await getGitCommonDir()).toBe('/home/user/project/.git');
+  });
+});
+
+describe('getGitHooksDir', () => {
+  it('resolves the hooks directory, core.hooksPath included', async () => {
+    stubExecFile('.husky\n');
+    expect(await getGitHooksDir()).toBe(join(process.cwd(), '.husky'));
+    expect(mockExecFile).toHaveBeenCalledWith('git', ['rev-parse', '--git-path', 'hooks'], expect.any(Function));
+  });
+});
+
 describe('getHeadSha', () => {
   it('returns trimmed HEAD SHA', async () => {
     stubExecFile('a4872f4584ce55be198c06cc1c33c2894b47dbe3\n');
@@ -70,33 +119,75 @@ describe('getHeadSha', () => {
   });
 });
 
-describe('getDiffFiles', () => {
+// `git diff --name-status -z` output: NUL-terminated fields
+function nameStatus(...fields: string[]): string {
+  return fields.map((field) => `${field}\0`).join('');
+}
+
+describe('parseNameStatus', () => {
+  it('keeps the previous path of renamed files, and reads copies as added files', () => {
+    expect(parseNameStatus(nameStatus('M', 'src/a.ts', 'R087', 'src/old.ts', 'src/new.ts', 'C100', 'src/b.ts', 'src/copy.ts', 'D', 'src/gone.ts', 'A', 'src/added.ts'))).toEqual([
+      { status: 'modified', path: 'src/a.ts' },
+      { status: 'renamed', from: 'src/old.ts', path: 'src/new.ts' },
+      { status: 'added', path: 'src/copy.ts' },
+      { status: 'deleted', path: 'src/gone.ts' },
+      { status: 'added', path: 'src/added.ts' },
+    ]);
+  });
+
+  it('reads paths verbatim and other statuses as modified', () => {
+    expect(parseNameStatus(nameStatus('T', 'src/with\nnewline.ts', 'U', 'src/conflict.ts'))).toEqual([
+      { status: 'modified', path: 'src/with\nnewline.ts' },
+      { status: 'modified', path: 'src/conflict.ts' },
+    ]);
+    expect(parseNameStatus('')).toEqual([]);
+  });
+});
+
+describe('getDiffEntries', () => {
+  it('diffs with rename detection, whatever the diff.renames setting', async () => {
+    stubExecFile(nameStatus('R100', 'src/old.ts', 'src/new.ts')); // unstaged
+    stubExecFile(nameStatus('R100', 'src/old.ts', 'src/new.ts')); // staged
+    expect(await getDiffEntries()).toEqual([{ status: 'renamed', from: 'src/old.ts', path: 'src/new.ts' }]);
+    expect(mockExecFile).toHaveBeenCalledWith('git', ['diff', '--name-status', '-M', '-z', 'HEAD'], expect.any(Function));
+    expect(mockExecFile).toHaveBeenCalledWith('git', ['diff', '--name-status', '-M', '-z', '--cached'], expect.any(Function));
+  });
+
+  it('keeps a rename only the index records, rather than a deleted and an added file', async () => {
+    stubExecFile(nameStatus('M', 'src/a.ts', 'D', 'src/old.ts', 'A', 'src/new.ts')); // unstaged, edited past the threshold
+    stubExecFile(nameStatus('R100', 'src/old.ts', 'src/new.ts'));                    // staged, after git mv
+    expect(await getDiffEntries()).toEqual([
+      { status: 'modified', path: 'src/a.ts' },
+      { status: 'renamed', from: 'src/old.ts', path: 'src/new.ts' },
+    ]);
+  });
+
   it('returns empty array when no files are in diff', async () => {
     stubExecFile(''); // unstaged
     stubExecFile(''); // staged
-    expect(await getDiffFiles()).toEqual([]);
+    expect(await getDiffEntries()).toEqual([]);
   });
 
-  it('returns unstaged files only', async () => {
-    stubExecFile('src/a.ts\nsrc/b.ts\n'); // unstaged
-    stubExecFile('');                      // staged
-    expect(await getDiffFiles()).toEqual(['src/a.ts', 'src/b.ts']);
+  it('returns unstaged changes only', async () => {
+    stubExecFile(nameStatus('M', 'src/a.ts', 'D', 'src/b.ts')); // unstaged
+    stubExecFile('');                                            // staged
+    expect(await getDiffEntries()).toEqual([{ status: 'modified', path: 'src/a.ts' }, { status: 'deleted', path: 'src/b.ts' }]);
   });
 
-  it('returns staged files only', async () => {
-    stubExecFile('');                      // unstaged
-    stubExecFile('src/c.ts\nsrc/d.ts\n'); // staged
-    expect(await getDiffFiles()).toEqual(['src/c.ts', 'src/d.ts']);
+  it('returns staged changes only', async () => {
+    stubExecFile('');                                            // unstaged
+    stubExecFile(nameStatus('A', 'src/c.ts', 'M', 'src/d.ts')); // staged
+    expect(await getDiffEntries()).toEqual([{ status: 'added', path: 'src/c.ts' }, { status: 'modified', path: 'src/d.ts' }]);
   });
 
-  it('returns deduplicated union of unstaged and staged files', async () => {
-    stubExecFile('src/a.ts\nsrc/b.ts\n'); // unstaged
-    stubExecFile('src/b.ts\nsrc/c.ts\n'); // staged — b.ts appears in both
-    const result = await getDiffFiles();
-    expect(result).toHaveLength(3);
-    expect(result).toContain('src/a.ts');
-    expect(result).toContain('src/b.ts');
-    expect(result).toContain('src/c.ts');
+  it('returns deduplicated union of unstaged and staged changes', async () => {
+    stubExecFile(nameStatus('M', 'src/a.ts', 'M', 'src/b.ts')); // unstaged
+    stubExecFile(nameStatus('M', 'src/b.ts', 'A', 'src/c.ts')); // staged — b.ts appears in both
+    expect(await getDiffEntries()).toEqual([
+      { status: 'modified', path: 'src/a.ts' },
+      { status: 'modified', path: 'src/b.ts' },
+      { status: 'added', path: 'src/c.ts' },
+    ]);
   });
 
   it('silently returns empty array when git fails', async () => {
@@ -104,44 +195,244 @@ describe('getDiffFiles', () => {
       callback(new Error('git not found'), '', '');
       return undefined as any;
     });
-    expect(await getDiffFiles()).toEqual([]);
+    expect(await getDiffEntries()).toEqual([]);
   });
 
-  it('ignores empty lines in git output', async () => {
-    stubExecFile('\nsrc/a.ts\n\n'); // unstaged with empty lines
-    stubExecFile('');               // staged
-    expect(await getDiffFiles()).toEqual(['src/a.ts']);
+  it('lists renamed files under their new path, with the previous one', async () => {
+    stubExecFile(nameStatus('R090', 'src/old.ts', 'src/new.ts', 'D', 'src/gone.ts')); // unstaged
+    stubExecFile('');                                                                 // staged
+    expect(await getDiffEntries()).toEqual([
+      { status: 'renamed', from: 'src/old.ts', path: 'src/new.ts' },
+      { status: 'deleted', path: 'src/gone.ts' },
+    ]);
   });
 });
 
-describe('getDiffFilesBetweenCommits', () => {
-  it('calls git diff --name-only with the two SHAs', async () => {
-    stubExecFile('src/a.ts\nsrc/b.ts\n');
-    await getDiffFilesBetweenCommits('oldSha', 'newSha');
+describe('getDiffEntriesBetweenCommits', () => {
+  it('calls git diff --name-status -M with the two SHAs', async () => {
+    stubExecFile(nameStatus('M', 'src/a.ts', 'M', 'src/b.ts'));
+    await getDiffEntriesBetweenCommits('oldSha', 'newSha');
     expect(mockExecFile).toHaveBeenCalledWith(
       'git',
-      ['diff', '--name-only', 'oldSha', 'newSha'],
+      ['diff', '--name-status', '-M', '-z', 'oldSha', 'newSha'],
       expect.any(Function),
     );
   });
 
-  it('returns the list of changed files', async () => {
-    stubExecFile('src/a.ts\nsrc/b.ts\n');
-    expect(await getDiffFilesBetweenCommits('sha1', 'sha2')).toEqual(['src/a.ts', 'src/b.ts']);
+  it('returns the changed files', async () => {
+    stubExecFile(nameStatus('M', 'src/a.ts', 'A', 'src/b.ts'));
+    expect(await getDiffEntriesBetweenCommits('sha1', 'sha2')).toEqual([
+      { status: 'modified', path: 'src/a.ts' },
+      { status: 'added', path: 'src/b.ts' },
+    ]);
   });
 
   it('returns empty array when no files changed between commits', async () => {
     stubExecFile('');
-    expect(await getDiffFilesBetweenCommits('sha1', 'sha2')).toEqual([]);
+    expect(await getDiffEntriesBetweenCommits('sha1', 'sha2')).toEqual([]);
+  });
+
+  it('throws when git command fails (e.g. unknown SHA), rather than reporting no change', async () => {
+    stubExecFileError(new Error('unknown revision'));
+    await expect(getDiffEntriesBetweenCommits('badSha', 'HEAD')).rejects.toThrow('unknown revision');
+  });
+
+  it('keeps the rename pairs in the entries', async () => {
+    stubExecFile(nameStatus('R100', 'src/old.ts', 'src/new.ts'));
+    expect(await getDiffEntriesBetweenCommits('sha1', 'sha2')).toEqual([{ status: 'renamed', from: 'src/old.ts', path: 'src/new.ts' }]);
+  });
+});
+
+describe('getDiffEntriesSince', () => {
+  it('diffs HEAD against its merge-base with the ref', async () => {
+    stubExecFile(nameStatus('M', 'src/a.ts', 'A', 'src/b.ts'));
+    expect(await getDiffEntriesSince('origin/main')).toEqual([
+      { status: 'modified', path: 'src/a.ts' },
+      { status: 'added', path: 'src/b.ts' },
+    ]);
+    expect(mockExecFile).toHaveBeenCalledWith('git', ['diff', '--name-status', '-M', '-z', 'origin/main...HEAD'], expect.any(Function));
   });
 
-  it('returns empty array when git command fails (e.g. unknown SHA)', async () => {
+  it('throws when the ref is unknown', async () => {
     stubExecFileError(new Error('unknown revision'));
-    expect(await getDiffFilesBetweenCommits('badSha', 'HEAD')).toEqual([]);
+    await expect(getDiffEntriesSince('origin/nope')).rejects.toThrow('unknown revision');
+  });
+});
+
+describe('isCommitAvailable', () => {
+  it('checks that the SHA names an existing commit', async () => {
+    stubExecFile('');
+    expect(await isCommitAvailable('abc123')).toBe(true);
+    expect(mockExecFile).toHaveBeenCalledWith('git', ['cat-file', '-e', 'abc123^{commit}'], expect.any(Function));
+  });
+
+  it('returns false for a garbage-collected commit', async () => {
+    stubExecFileError(new Error('Not a valid object name'));
+    expect(await isCommitAvailable('abc123')).toBe(false);
+  });
+});
+
+describe('isAncestor', () => {
+  it('calls git merge-base --is-ancestor', async () => {
+    stubExecFile('');
+    expect(await isAncestor('old', 'new')).toBe(true);
+    expect(mockExecFile).toHaveBeenCalledWith('git', ['merge-base', '--is-ancestor', 'old', 'new'], expect.any(Function));
+  });
+
+  it('returns false on exit code 1', async () => {
+    stubExecFileError(Object.assign(new Error('exit 1'), { code: 1 }));
+    expect(await isAncestor('old', 'new')).toBe(false);
+  });
+
+  it('throws on other errors', async () => {
+    stubExecFileError(Object.assign(new Error('bad object'), { code: 128 }));
+    await expect(isAncestor('old', 'new')).rejects.toThrow('bad object');
+  });
+});
+
+describe('getMergeBase', () => {
+  it('returns the trimmed merge-base SHA', async () => {
+    stubExecFile('abc123\n');
+    expect(await getMergeBase('old', 'new')).toBe('abc123');
+    expect(mockExecFile).toHaveBeenCalledWith('git', ['merge-base', 'old', 'new'], expect.any(Function));
+  });
+
+  it('returns null when the commits share no history', async () => {
+    stubExecFileError(Object.assign(new Error('exit 1'), { code: 1 }));
+    expect(await getMergeBase('old', 'new')).toBeNull();
+  });
+});
+
+describe('getUntrackedFiles', () => {
+  it('lists untracked, non-ignored files relative to the git root', async () => {
+    stubExecFile('src/new.ts\0');
+    await getUntrackedFiles();
+    expect(mockExecFile).toHaveBeenCalledWith(
+      'git',
+      ['ls-files', '--others', '--exclude-standard', '--full-name', '-z', ':/'],
+      expect.any(Function),
+    );
+  });
+
+  it('returns the list of untracked files', async () => {
+    stubExecFile('src/new.ts\0src/other.ts\0');
+    expect(await getUntrackedFiles()).toEqual(['src/new.ts', 'src/other.ts']);
+  });
+
+  it('returns non-ASCII paths unquoted', async () => {
+    stubExecFile('src/café.ts\0src/a b.ts\0');
+    expect(await getUntrackedFiles()).toEqual(['src/café.ts', 'src/a b.ts']);
+  });
+
+  it('returns empty array when git command fails', async () => {
+    stubExecFileError(new Error('not a git repository'));
+    expect(await getUntrackedFiles()).toEqual([]);
+  });
+});
+
+describe('getRepoFiles', () => {
+  it('lists tracked and untracked non-ignored files', async () => {
+    stubExecFileWithOptions('tsconfig.json\0');
+    await getRepoFiles();
+    expect(mockExecFile).toHaveBeenCalledWith(
+      'git',
+      ['ls-files', '--cached', '--others', '--exclude-standard', '--full-name', '-z', ':/'],
+      expect.any(Object),
+      expect.any(Function),
+    );
+  });
+
+  it('returns deduplicated files (conflicted files are listed once per stage)', async () => {
+    stubExecFileWithOptions('a.ts\0a.ts\0b.ts\0');
+    expect(await getRepoFiles()).toEqual(['a.ts', 'b.ts']);
+  });
+
+  it('returns non-ASCII paths unquoted', async () => {
+    stubExecFileWithOptions('config/réglages.json\0');
+    expect(await getRepoFiles()).toEqual(['config/réglages.json']);
+  });
+
+  it('throws when git command fails', async () => {
+    mockExecFile.mockImplementationOnce((_cmd: any, _args: any, _opts: any, callback: any) => {
+      callback(new Error('not a git repository'), { stdout: '', stderr: '' });
+      return undefined as any;
+    });
+    await expect(getRepoFiles()).rejects.toThrow('not a git repository');
+  });
+});
+
+describe('getStagedEntries', () => {
+  it('lists the changes of git diff --cached', async () => {
+    stubExecFile(nameStatus('M', 'src/a.ts', 'R100', 'src/old.ts', 'src/b.ts'));
+    expect(await getStagedEntries()).toEqual([
+      { status: 'modified', path: 'src/a.ts' },
+      { status: 'renamed', from: 'src/old.ts', path: 'src/b.ts' },
+    ]);
+    expect(mockExecFile).toHaveBeenCalledWith('git', ['diff', '--name-status', '-M', '-z', '--cached'], expect.any(Function));
   });
+});
+
+describe('getIndexBlobs', () => {
+  it('maps each merged index entry to its blob SHA', async () => {
+    stubExecFileWithOptions([
+      '100644 aaa111 0\tsrc/a.ts',
+      '100755 bbb222 0\tsrc/with\ttab.sh',
+      '100644 ccc333 1\tsrc/conflict.ts',
+      '100644 ddd444 2\tsrc/conflict.ts',
+      '',
+    ].join('\0'));
+
+    expect(await getIndexBlobs('/repo')).toEqual({ 'src/a.ts': 'aaa111', 'src/with\ttab.sh': 'bbb222' });
+    expect(mockExecFile).toHaveBeenCalledWith(
+      'git',
+      ['ls-files', '--stage', '-z'],
+      expect.objectContaining({ cwd: '/repo' }),
+      expect.any(Function),
+    );
+  });
+});
+
+describe('getTreeBlobs', () => {
+  it('maps each file committed in the commit to its blob SHA', async () => {
+    stubExecFileWithOptions([
+      '100644 blob aaa111\tsrc/a.ts',
+      '100644 blob bbb222\tsrc/café.ts',
+      '160000 commit ccc333\tvendor/lib',
+      '',
+    ].join('\0'));
+
+    expect(await getTreeBlobs('/repo', 'headSha')).toEqual({ 'src/a.ts': 'aaa111', 'src/café.ts': 'bbb222' });
+    expect(mockExecFile).toHaveBeenCalledWith(
+      'git',
+      ['ls-tree', '-r', '--full-tree', '-z', 'headSha'],
+      expect.objectContaining({ cwd: '/repo' }),
+      expect.any(Function),
+    );
+  });
+});
+
+describe('readBlob', () => {
+  it('returns the raw content of the blob', async () => {
+    stubExecFileWithOptions(Buffer.from('content'));
+    expect((await readBlob('aaa111')).toString()).toBe('content');
+    expect(mockExecFile).toHaveBeenCalledWith(
+      'git',
+      ['cat-file', 'blob', 'aaa111'],
+      expect.objectContaining({ encoding: 'buffer' }),
+      expect.any(Function),
+    );
+  });
+});
 
-  it('ignores empty lines in git output', async () => {
-    stubExecFile('\nsrc/a.ts\n\nsrc/b.ts\n\n');
-    expect(await getDiffFilesBetweenCommits('sha1', 'sha2')).toEqual(['src/a.ts', 'src/b.ts']);
+describe('checkoutIndex', () => {
+  it('checks out the staged content under the directory', async () => {
+    stubExecFileWithOptions('');
+    await checkoutIndex('/repo', ['src/a.ts'], '/tmp/staged');
+    expect(mockExecFile).toHaveBeenCalledWith(
+      'git',
+      ['checkout-index', '--prefix=/tmp/staged/', '-z', '--stdin'],
+      expect.objectContaining({ cwd: '/repo' }),
+      expect.any(Function),
+    );
   });
 });
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { parseHookContext, formatHookOutput, formatFailureReason } from '../hook.js';
+import type { WatcherResult } from '../core.js';
+
+function failedResult(overrides: Partial<WatcherResult> = {}): WatcherResult {
+  return {
+    pattern: 'src/**/*.ts',
+    changedFiles: ['src/a.ts', 'src/b.ts'],
+    executed: true,
+    success: false,
+    failures: [{ command: 'npm run lint', exitCode: 1, stdout: 'lint output', stderr: 'lint error' }],
+    ...overrides,
+  };
+}
+
+const passedResult: WatcherResult = {
+  pattern: 'backend/**/*.kt',
+  changedFiles: ['backend/App.kt'],
+  executed: true,
+  success: true,
+  failures: [],
+};
+
+// ---------------------------------------------------------------------------
+// parseHookContext — pure function, no mocks needed
+// ---------------------------------------------------------------------------
+
+describe('parseHookContext', () => {
+  it('returns undefined for an empty payload', () => {
+    expect(parseHookContext('')).toBeUndefined();
+    expect(parseHookContext('  \n')).toBeUndefined();
+  });
+
+  it('returns undefined for non-JSON input', () => {
+    expect(parseHookContext('not json')).toBeUndefined();
+  });
+
+  it('returns undefined when the payload is not an object', () => {
+    expect(parseHookContext('[1, 2]')).toBeUndefined();
+    expect(parseHookContext('42')).toBeUndefined();
+  });
+
+  it('maps the Claude Code hook fields to a typed context', () => {
+    const payload = {
+      hook_event_name: 'Stop',
+      session_id: 'abc-123',
+      cwd: '/home/user/project',
+      transcript_path: '/home/user/.claude/projects/x.jsonl',
+      stop_hook_active: true,
+    };
+    expect(parseHookContext(JSON.stringify(payload))).toEqual({
+      hookEventName: 'Stop',
+      sessionId: 'abc-123',
+      cwd: '/home/user/project',
+      transcriptPath: '/home/user/.claude/projects/x.jsonl',
+      stopHookActive: true,
+    });
+  });
+
+  it('omits missing or mistyped fields', () => {
+    const context = parseHookContext(JSON.stringify({ hook_event_name: 'Stop', stop_hook_active: 'yes', cwd: 3 }));
+    expect(context).toEqual({ hookEventName: 'Stop' });
+  });
+
+  it('ignores unknown fields', () => {
+    expect(parseHookContext(JSON.stringify({ tool_name: 'Edit' }))).toEqual({});
+  });
+});
+
+// ---------------------------------------------------------------------------
+// formatFailureReason
+// ---------------------------------------------------------------------------
+
+describe('formatFailureReason', () => {
+  it('lists the pattern, changed files and failed command output', () => {
+    const reason = formatFailureReason([failedResult()]);
+    expect(reason).toContain('checks failed for files matching "src/**/*.ts"');
+    expect(reason).toContain('changed: src/a.ts, src/b.ts');
+    expect(reason).toContain('FAILED: npm run lint (exit code 1)');
+    expect(reason).toContain('lint output');
+    expect(reason).toContain('lint error');
+  });
+
+  it('includes a section for each failed watcher', () => {
+    const reason = formatFailureReason([failedResult(), failedResult({ pattern: 'docs/**/*.md' })]);
+    expect(reason).toContain('"src/**/*.ts"');
+    expect(reason).toContain('"docs/**/*.md"');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// formatHookOutput
+// ---------------------------------------------------------------------------
+
+describe('formatHookOutput', () => {
+  it('suppresses output when nothing failed', () => {
+    expect(formatHookOutput([passedResult], { hookEventName: 'Stop' })).toEqual({ suppressOutput: true });
+  });
+
+  it('blocks Stop with the failures as reason', () => {
+    const output = formatHookOutput([failedResult(), passedResult], { hookEventName: 'Stop' });
+    expect(output.decision).toBe('block');
+    expect(output.reason).toContain('FAILED: npm run lint');
+    expect(output.reason).not.toContain('backend/**/*.kt');
+    expect(output.systemMessage).toBe('delta-gate: 1 command(s) failed');
+  });
+
+  it('blocks SubagentStop and runs without hook context the same way as Stop', () => {
+    expect(formatHookOutput([failedResult()], { hookEventName: 'SubagentStop' }).decision).toBe('block');
+    expect(formatHookOutput([failedResult()]).decision).toBe('block');
+  });
+
+  it('reports failures as additionalContext for PostToolUse', () => {
+    const output = formatHookOutput([failedResult()], { hookEventName: 'PostToolUse' });
+    expect(output.decision).toBeUndefined();
+    expect(output.hookSpecificOutput?.hookEventName).toBe('PostToolUse');
+    expect(output.hookSpecificOutput?.additionalContext).toContain('FAILED: npm run lint');
+  });
+
+  it('does not block on repeated failures but tells the user', () => {
+    const output = formatHookOutput([failedResult({ repeatedFailure: true })], { hookEventName: 'Stop' });
+    expect(output.decision).toBeUndefined();
+    expect(output.suppressOutput).toBe(true);
+    expect(output.systemMessage).toContain('still failing for "src/**/*.ts"');
+  });
+});
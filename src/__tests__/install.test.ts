@@ -0,0 +1,183 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+vi.mock('../git.js', () => ({
+  getGitRoot: vi.fn(),
+  getGitHooksDir: vi.fn(),
+}));
+
+import { getGitRoot, getGitHooksDir } from '../git.js';
+import {
+  addClaudeHook,
+  removeClaudeHooks,
+  addGitHookBlock,
+  removeGitHookBlock,
+  installedCommand,
+  install,
+  uninstall,
+} from '../install.js';
+
+const userHook = { matcher: '', hooks: [{ type: 'command', command: 'npx -y delta-gate@0.2.0 --on "*.ts" --exec lint' }] };
+
+// ---------------------------------------------------------------------------
+// Pure functions — no mocks needed
+// ---------------------------------------------------------------------------
+
+describe('installedCommand', () => {
+  it('pins the version and quotes the arguments for the shell', () => {
+    expect(installedCommand('claude', ['--on', 'src/**/*.ts', '--exec', "echo 'ok'"], '1.2.3'))
+      .toBe(`npx -y delta-gate@1.2.3 --on 'src/**/*.ts' --exec 'echo '\\''ok'\\'''`);
+  });
+
+  it('checks the staged content from a pre-commit hook', () => {
+    expect(installedCommand('git-pre-commit', [], '1.2.3')).toBe('npx -y delta-gate@1.2.3 --staged');
+    expect(installedCommand('git-pre-commit', ['--staged'], '1.2.3')).toBe('npx -y delta-gate@1.2.3 --staged');
+    expect(installedCommand('git-pre-push', [], '1.2.3')).toBe('npx -y delta-gate@1.2.3');
+  });
+});
+
+describe('addClaudeHook / removeClaudeHooks', () => {
+  const settings = { permissions: { allow: [] }, hooks: { Stop: [userHook], PreToolUse: [userHook] } };
+
+  it('appends an entry, keeping the other settings and hooks', () => {
+    const installed = addClaudeHook(settings, 'Stop', 'npx -y delta-gate@1.2.3');
+
+    expect(installed.permissions).toEqual({ allow: [] });
+    expect(installed.hooks!.PreToolUse).toEqual([userHook]);
+    expect(installed.hooks!.Stop).toEqual([
+      userHook,
+      { hooks: [{ type: 'command', command: 'npx -y delta-gate@1.2.3 # delta-gate install' }] },
+    ]);
+  });
+
+  it('replaces the installed entry in place rather than adding another one', () => {
+    const installed = addClaudeHook(addClaudeHook(settings, 'Stop', 'old'), 'Stop', 'new');
+    expect(addClaudeHook(installed, 'Stop', 'new')).toEqual(installed);
+    expect(installed.hooks!.Stop.map((entry) => entry.hooks![0].command)).toEqual([userHook.hooks[0].command, 'new # delta-gate install']);
+  });
+
+  it('removes the installed entries only, dropping the events and hooks left empty', () => {
+    const installed = addClaudeHook(addClaudeHook(settings, 'Stop', 'cmd'), 'SubagentStop', 'cmd');
+    expect(removeClaudeHooks(installed)).toEqual(settings);
+    expect(removeClaudeHooks(addClaudeHook({}, 'Stop', 'cmd'))).toEqual({});
+    expect(removeClaudeHooks({ hooks: { Stop: [] } })).toEqual({ hooks: { Stop: [] } });
+  });
+});
+
+describe('addGitHookBlock / removeGitHookBlock', () => {
+  const block = '# >>> delta-gate install >>>\ncmd </dev/null || exit $?\n# <<< delta-gate install <<<\n';
+
+  it('creates a shell script when there is no hook', () => {
+    expect(addGitHookBlock(undefined, 'cmd')).toBe(`#!/bin/sh\n\n${block}`);
+  });
+
+  it('appends the block to an existing script, once', () => {
+    const script = addGitHookBlock('#!/bin/sh\nnpm test', 'cmd');
+    expect(script).toBe(`#!/bin/sh\nnpm test\n\n${block}`);
+    expect(addGitHookBlock(script, 'cmd')).toBe(script);
+    expect(addGitHookBlock(script, 'other')).toBe(`#!/bin/sh\nnpm test\n\n${block.replace('cmd', 'other')}`);
+  });
+
+  it('restores the existing script, or removes the one it created', () => {
+    expect(removeGitHookBlock(addGitHookBlock('#!/bin/sh\nnpm test\n', 'cmd'))).toBe('#!/bin/sh\nnpm test\n');
+    expect(removeGitHookBlock(addGitHookBlock(undefined, 'cmd'))).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// install / uninstall — real files in a temporary directory
+// ---------------------------------------------------------------------------
+
+describe('install / uninstall', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'delta-gate-install-'));
+    // The installed command runs the watchers of this config file
+    writeFileSync(join(dir, 'delta-gate.config.json'), '{"watchers": []}');
+    vi.mocked(getGitRoot).mockResolvedValue(dir);
+    vi.mocked(getGitHooksDir).mockResolvedValue(join(dir, '.git', 'hooks'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const settingsPath = (name = 'settings.json') => join(dir, '.claude', name);
+  const readSettings = (name?: string) => JSON.parse(readFileSync(settingsPath(name), 'utf-8'));
+
+  it('merges the hook into the Claude Code settings, idempotently', async () => {
+    mkdirSync(join(dir, '.claude'));
+    writeFileSync(settingsPath(), JSON.stringify({ model: 'opus', hooks: { Stop: [userHook] } }));
+
+    expect(await install({ target: 'claude', args: ['--cache'] })).toEqual({ path: settingsPath(), changed: true });
+    expect(await install({ target: 'claude', args: ['--cache'] })).toEqual({ path: settingsPath(), changed: false });
+
+    const settings = readSettings();
+    expect(settings.model).toBe('opus');
+    expect(settings.hooks.Stop).toHaveLength(2);
+    expect(settings.hooks.Stop[1].hooks[0].command).toMatch(/^npx -y delta-gate@\S+ --cache # delta-gate install$/);
+
+    expect(await uninstall({ target: 'claude' })).toEqual({ path: settingsPath(), changed: true });
+    expect(readSettings()).toEqual({ model: 'opus', hooks: { Stop: [userHook] } });
+    expect(await uninstall({ target: 'claude' })).toEqual({ path: settingsPath(), changed: false });
+  });
+
+  it('writes the local settings with local, on the requested event', async () => {
+    await install({ target: 'claude', local: true, event: 'SubagentStop' });
+
+    expect(existsSync(settingsPath())).toBe(false);
+    expect(Object.keys(readSettings('settings.local.json').hooks)).toEqual(['SubagentStop']);
+  });
+
+  it('refuses to edit settings it cannot parse', async () => {
+    mkdirSync(join(dir, '.claude'));
+    writeFileSync(settingsPath(), '{"hooks": ');
+    await expect(install({ target: 'claude' })).rejects.toThrow(`Invalid JSON in Claude Code settings ${settingsPath()}`);
+    writeFileSync(settingsPath(), '{"hooks": {"Stop": {}}}');
+    await expect(install({ target: 'claude' })).rejects.toThrow('"hooks.Stop" is not an array of objects');
+  });
+
+  it('writes an executable git hook, and removes it when nothing else is in it', async () => {
+    const hookPath = join(dir, '.git', 'hooks', 'pre-commit');
+
+    expect(await install({ target: 'git-pre-commit' })).toEqual({ path: hookPath, changed: true });
+    expect(readFileSync(hookPath, 'utf-8')).toMatch(/^#!\/bin\/sh\n\n# >>> delta-gate install >>>\nnpx -y delta-gate@\S+ --staged </);
+    expect(statSync(hookPath).mode & 0o777).toBe(0o755);
+
+    expect(await uninstall({ target: 'git-pre-commit' })).toEqual({ path: hookPath, changed: true });
+    expect(existsSync(hookPath)).toBe(false);
+  });
+
+  it('keeps the commands of an existing git hook', async () => {
+    const hookPath = join(dir, '.git', 'hooks', 'pre-push');
+    mkdirSync(join(dir, '.git', 'hooks'), { recursive: true });
+    writeFileSync(hookPath, '#!/usr/bin/env bash\nnpm test\n');
+
+    await install({ target: 'git-pre-push' });
+    expect(readFileSync(hookPath, 'utf-8')).toMatch(/^#!\/usr\/bin\/env bash\nnpm test\n\n# >>> delta-gate install >>>\n/);
+
+    await uninstall({ target: 'git-pre-push' });
+    expect(readFileSync(hookPath, 'utf-8')).toBe('#!/usr/bin/env bash\nnpm test\n');
+  });
+
+  it('refuses to install a command without any watcher to run', async () => {
+    rmSync(join(dir, 'delta-gate.config.json'));
+    await expect(install({ target: 'git-pre-commit' })).rejects.toThrow('the installed command would have no watcher to run');
+    await expect(install({ target: 'claude', args: ['--cache'] })).rejects.toThrow('no watcher to run');
+    expect(existsSync(join(dir, '.git'))).toBe(false);
+    expect(existsSync(join(dir, '.claude'))).toBe(false);
+
+    expect((await install({ target: 'claude', args: ['--on', 'src/**/*.ts', '--exec', 'lint'] })).changed).toBe(true);
+    expect((await install({ target: 'git-pre-push', args: ['--config=ci/delta-gate.config.json'] })).changed).toBe(true);
+  });
+
+  it('refuses to append to a hook that is not a shell script', async () => {
+    mkdirSync(join(dir, '.git', 'hooks'), { recursive: true });
+    writeFileSync(join(dir, '.git', 'hooks', 'pre-commit'), '#!/usr/bin/env node\nconsole.log(1);\n');
+
+    await expect(install({ target: 'git-pre-commit' })).rejects.toThrow('is not a shell script (#!/usr/bin/env node)');
+  });
+});
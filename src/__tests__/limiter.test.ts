@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { createLimiter } from '../limiter.js';
+
+// A task that only settles when told to, recording when it starts
+function deferredTask(started: string[], name: string) {
+  let settle!: () => void;
+  const done = new Promise<string>((resolve) => (settle = () => resolve(name)));
+  return {
+    task: () => {
+      started.push(name);
+      return done;
+    },
+    finish: () => settle(),
+  };
+}
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('createLimiter', () => {
+  it('runs at most maxParallel tasks at once, in submission order', async () => {
+    const limiter = createLimiter(2);
+    const started: string[] = [];
+    const [a, b, c] = ['a', 'b', 'c'].map((name) => deferredTask(started, name));
+
+    const results = [a, b, c].map(({ task }) => limiter.run(task));
+    await tick();
+    expect(started).toEqual(['a', 'b']);
+
+    b.finish();
+    await tick();
+    expect(started).toEqual(['a', 'b', 'c']);
+
+    a.finish();
+    c.finish();
+    expect(await Promise.all(results)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('runs an exclusive task alone, without letting later tasks overtake it', async () => {
+    const limiter = createLimiter(4);
+    const started: string[] = [];
+    const [a, gradle, c] = ['a', 'gradle', 'c'].map((name) => deferredTask(started, name));
+
+    const results = [limiter.run(a.task), limiter.run(gradle.task, true), limiter.run(c.task)];
+    await tick();
+    expect(started).toEqual(['a']);
+
+    a.finish();
+    await tick();
+    expect(started).toEqual(['a', 'gradle']);
+
+    gradle.finish();
+    await tick();
+    expect(started).toEqual(['a', 'gradle', 'c']);
+
+    c.finish();
+    await Promise.all(results);
+  });
+
+  it('frees the slot of a failed task and propagates its error', async () => {
+    const limiter = createLimiter(1);
+
+    await expect(limiter.run(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    expect(await limiter.run(async () => 'next')).toBe('next');
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { toPatternSet, createMatcher, patternKey } from '../patterns.js';
+
+// ---------------------------------------------------------------------------
+// toPatternSet
+// ---------------------------------------------------------------------------
+
+describe('toPatternSet', () => {
+  it('accepts a single glob', () => {
+    expect(toPatternSet('src/**/*.ts')).toEqual({ include: ['src/**/*.ts'], exclude: [] });
+  });
+
+  it('splits !-prefixed globs into excludes', () => {
+    expect(toPatternSet(['src/**/*.ts', '!**/*.generated.ts'])).toEqual({
+      include: ['src/**/*.ts'],
+      exclude: ['**/*.generated.ts'],
+    });
+  });
+
+  it('adds ignore globs to excludes, with or without a ! prefix', () => {
+    expect(toPatternSet('src/**', ['**/__snapshots__/**', '!**/*.md'])).toEqual({
+      include: ['src/**'],
+      exclude: ['**/__snapshots__/**', '**/*.md'],
+    });
+  });
+
+  it('includes every file when only excludes are given', () => {
+    expect(toPatternSet(['!**/*.md'])).toEqual({ include: ['**'], exclude: ['**/*.md'] });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// createMatcher
+// ---------------------------------------------------------------------------
+
+describe('createMatcher', () => {
+  const isMatch = createMatcher(
+    toPatternSet(['src/**/*.ts', 'src/**/*.tsx'], ['**/*.generated.ts', '**/__snapshots__/**']),
+  );
+
+  it('matches files of any include glob', () => {
+    expect(isMatch('src/a.ts')).toBe(true);
+    expect(isMatch('src/components/b.tsx')).toBe(true);
+  });
+
+  it('does not match files outside the include globs', () => {
+    expect(isMatch('lib/a.ts')).toBe(false);
+    expect(isMatch('src/a.js')).toBe(false);
+  });
+
+  it('does not match excluded files', () => {
+    expect(isMatch('src/api.generated.ts')).toBe(false);
+    expect(isMatch('src/__snapshots__/a.ts')).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// patternKey
+// ---------------------------------------------------------------------------
+
+describe('patternKey', () => {
+  it('is the glob itself for a single include glob', () => {
+    expect(patternKey(toPatternSet('src/**/*.ts'))).toBe('src/**/*.ts');
+  });
+
+  it('lists includes then !-prefixed excludes', () => {
+    expect(patternKey(toPatternSet(['src/**/*.ts', '!**/*.generated.ts']))).toBe(
+      '["src/**/*.ts","!**/*.generated.ts"]',
+    );
+  });
+
+  it('does not depend on glob order, duplicates or how excludes were declared', () => {
+    const a = patternKey(toPatternSet(['src/**/*.tsx', 'src/**/*.ts', '!**/*.gen.ts']));
+    const b = patternKey(toPatternSet(['src/**/*.ts', 'src/**/*.tsx', 'src/**/*.ts'], '**/*.gen.ts'));
+    expect(a).toBe(b);
+  });
+
+  it('differs when excludes differ', () => {
+    expect(patternKey(toPatternSet('src/**', 'a'))).not.toBe(patternKey(toPatternSet('src/**', 'b')));
+  });
+});
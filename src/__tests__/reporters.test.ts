@@ -0,0 +1,183 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  parseReportTarget,
+  formatJsonReport,
+  formatJUnitReport,
+  formatMarkdownReport,
+  writeReports,
+} from '../reporters.js';
+import type { WatcherResult } from '../core.js';
+
+const failed: WatcherResult = {
+  id: 'lint',
+  pattern: 'src/**/*.ts',
+  changedFiles: ['src/a.ts', 'src/b.ts'],
+  executed: true,
+  success: false,
+  durationMs: 1500,
+  commands: [
+    { command: 'npm run build', name: 'build', exitCode: 0, stdout: '', stderr: '', durationMs: 500 },
+    { command: 'npm run lint', exitCode: 1, stdout: 'a.ts: <error> & "more"', stderr: '', durationMs: 1000 },
+    { command: 'npm test', exitCode: null, stdout: '', stderr: '', skipped: true },
+  ],
+  failures: [
+    { command: 'npm run lint', exitCode: 1, stdout: 'a.ts: <error> & "more"', stderr: '', durationMs: 1000 },
+    { command: 'npm test', exitCode: null, stdout: '', stderr: '', skipped: true },
+  ],
+};
+
+const untouched: WatcherResult = {
+  id: 'backend-build',
+  pattern: 'backend/**/*.kt',
+  changedFiles: [],
+  executed: false,
+  success: true,
+  failures: [],
+  commands: [],
+};
+
+// ---------------------------------------------------------------------------
+// parseReportTarget — pure function, no mocks needed
+// ---------------------------------------------------------------------------
+
+describe('parseReportTarget', () => {
+  it('splits the format from the path at the first colon', () => {
+    expect(parseReportTarget('junit:reports/delta-gate.xml')).toEqual({ format: 'junit', path: 'reports/delta-gate.xml' });
+    expect(parseReportTarget('json:C:/reports/out.json')).toEqual({ format: 'json', path: 'C:/reports/out.json' });
+  });
+
+  it('rejects unknown formats and missing paths', () => {
+    expect(parseReportTarget('xml:out.xml')).toBeNull();
+    expect(parseReportTarget('markdown:')).toBeNull();
+    expect(parseReportTarget('out.json')).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// formatJsonReport
+// ---------------------------------------------------------------------------
+
+describe('formatJsonReport', () => {
+  it('contains the full results and the overall outcome', () => {
+    const report = JSON.parse(formatJsonReport([failed, untouched]));
+    expect(report.success).toBe(false);
+    expect(report.watchers).toEqual([failed, untouched]);
+  });
+
+  it('does not count repeated failures as blocking', () => {
+    expect(JSON.parse(formatJsonReport([{ ...failed, repeatedFailure: true }])).success).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// formatJUnitReport
+// ---------------------------------------------------------------------------
+
+describe('formatJUnitReport', () => {
+  const report = formatJUnitReport([failed, untouched]);
+
+  it('summarizes every command in the root element', () => {
+    expect(report).toContain('<testsuites name="delta-gate" tests="3" failures="1" skipped="1" time="1.500">');
+  });
+
+  it('writes one test suite per watcher and one test case per command', () => {
+    expect(report).toContain('<testsuite name="lint" tests="3" failures="1" skipped="1" time="1.500">');
+    expect(report).toContain('<testcase classname="lint" name="build" time="0.500"/>');
+    expect(report).toContain('<testsuite name="backend-build" tests="0" failures="0" skipped="0" time="0.000"/>');
+  });
+
+  it('reports failures with their escaped output and skipped commands', () => {
+    expect(report).toContain(
+      '<failure message="exit code 1">[stdout]\na.ts: &lt;error&gt; &amp; &quot;more&quot;\n[stderr]\n</failure>',
+    );
+    expect(report).toMatch(/<testcase classname="lint" name="npm test" time="0.000">\n\s+<skipped /);
+  });
+
+  it('reports cancelled commands as skipped', () => {
+    const cancelled = { command: 'npm test', exitCode: null, stdout: '', stderr: '', cancelled: true };
+    const junit = formatJUnitReport([{ ...failed, commands: [cancelled], failures: [cancelled] }]);
+    expect(junit).toContain('failures="0" skipped="1"');
+    expect(junit).toContain('<skipped message="cancelled after another command failed"/>');
+  });
+
+  it('reports the failed attempts of flaky and retried commands', () => {
+    const attempts = [{ exitCode: 1, stdout: '', stderr: 'refused' }, { exitCode: 0, stdout: '', stderr: '' }];
+    const flaky = { command: 'npm run it', exitCode: 0, stdout: '', stderr: '', attempts, flaky: true };
+    const retried = { command: 'npm run e2e', exitCode: 1, stdout: '', stderr: '', attempts: [attempts[0], attempts[0]] };
+    const junit = formatJUnitReport([{ ...failed, commands: [flaky, retried], failures: [retried] }]);
+    expect(junit).toContain('tests="2" failures="1"');
+    expect(junit).toContain('<flakyFailure message="exit code 1">[stdout]\n\n[stderr]\nrefused</flakyFailure>');
+    expect(junit).toMatch(/<failure message="exit code 1">.*<\/failure>\n\s+<rerunFailure message="exit code 1">/s);
+  });
+
+  it('reports timed out commands as failures', () => {
+    const timedOut = { command: 'npm test', exitCode: null, stdout: '', stderr: '', timedOut: true, timeout: 60 };
+    const junit = formatJUnitReport([{ ...failed, commands: [timedOut], failures: [timedOut] }]);
+    expect(junit).toContain('failures="1"');
+    expect(junit).toContain('<failure message="timed out after 60s">');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// formatMarkdownReport
+// ---------------------------------------------------------------------------
+
+describe('formatMarkdownReport', () => {
+  it('prints a summary table', () => {
+    const report = formatMarkdownReport([failed, untouched]);
+    expect(report).toMatch(/^## delta-gate: failed\n/);
+    expect(report).toContain('| `lint` | failed | 2 | 1.500s |');
+    expect(report).toContain('| `backend-build` | no changes | 0 | - |');
+  });
+
+  it('tells cached passes apart from watchers without changes', () => {
+    const cached = { ...untouched, changedFiles: ['backend/A.kt'], cached: true };
+    expect(formatMarkdownReport([cached])).toContain('| `backend-build` | passed (cached) | 1 | - |');
+  });
+
+  it('includes the output of failed commands', () => {
+    const report = formatMarkdownReport([failed]);
+    expect(report).toContain('<summary><code>npm run lint</code>: exit code 1</summary>\n\n```\na.ts: <error> & "more"\n```');
+    expect(report).toContain('- `npm test`: skipped, a command it needs did not succeed');
+  });
+
+  it('lists flaky commands', () => {
+    const attempts = [{ exitCode: 1, stdout: '', stderr: '' }, { exitCode: 0, stdout: '', stderr: '' }];
+    const flaky = { command: 'npm run it', exitCode: 0, stdout: '', stderr: '', attempts, flaky: true };
+    const report = formatMarkdownReport([{ ...failed, success: true, commands: [flaky], failures: [] }]);
+    expect(report).toContain('| `lint` | passed (1 flaky) |');
+    expect(report).toContain('### Flaky commands\n\n- `lint` `npm run it`: passed on attempt 2 (exit code 1 before)');
+  });
+
+  it('uses a longer fence when the output contains one', () => {
+    const withFence = { ...failed, failures: [{ ...failed.failures[0], stdout: '```\ncode\n```' }] };
+    expect(formatMarkdownReport([withFence])).toContain('````\n```\ncode\n```\n````');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// writeReports — writes real files to a temporary directory
+// ---------------------------------------------------------------------------
+
+describe('writeReports', () => {
+  let dir: string;
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes each report, creating missing directories', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'delta-gate-reports-'));
+
+    await writeReports([failed], [
+      { format: 'json', path: join(dir, 'out/report.json') },
+      { format: 'markdown', path: join(dir, 'summary.md') },
+    ]);
+
+    expect(JSON.parse(readFileSync(join(dir, 'out/report.json'), 'utf-8')).watchers[0].id).toBe('lint');
+    expect(readFileSync(join(dir, 'summary.md'), 'utf-8')).toMatch(/^## delta-gate: failed/);
+  });
+});
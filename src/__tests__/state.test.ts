@@ -16,14 +16,28 @@ vi.mock('node:fs', () => ({
   readFileSync: vi.fn(),
 }));
 
+vi.mock('../git.js', () => ({
+  getIndexBlobs: vi.fn(),
+  readBlob: vi.fn(),
+}));
+
 import { readFile, writeFile, mkdir, open, unlink } from 'node:fs/promises';
 import { readFileSync } from 'node:fs';
+import { getIndexBlobs, readBlob } from '../git.js';
 import {
   computeFileHash,
   computeHashes,
+  computeIndexHashes,
   loadState,
   saveState,
+  recordFailure,
+  migrateState,
+  removeStates,
   findChangedFiles,
+  classifyChanges,
+  readStateFile,
+  readStateFileLocked,
+  watcherStateKey,
 } from '../state.js';
 
 const mockReadFile = vi.mocked(readFile);
@@ -94,6 +108,51 @@ describe('findChangedFiles', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// classifyChanges — pure function, no mocks needed
+// ---------------------------------------------------------------------------
+
+describe('classifyChanges', () => {
+  it('splits changes into added, modified and deleted files', () => {
+    const previous = { 'a.ts': 'hash1', 'b.ts': 'hash2', 'c.ts': 'hash3' };
+    const current = { 'a.ts': 'hash1', 'b.ts': 'changed', 'd.ts': 'hash4' };
+    expect(classifyChanges(previous, current)).toEqual({ added: ['d.ts'], modified: ['b.ts'], deleted: ['c.ts'], renamed: [] });
+  });
+
+  it('reports every file as added without a previous snapshot', () => {
+    expect(classifyChanges({}, { 'a.ts': 'hash1' })).toEqual({ added: ['a.ts'], modified: [], deleted: [], renamed: [] });
+  });
+
+  it('counts files that are still there as reverted rather than deleted', () => {
+    const previous = { 'reverted.ts': 'hash1', 'deleted.ts': 'hash2', 'untracked.ts': 'hash3' };
+    expect(classifyChanges(previous, {}, { reverted: ['reverted.ts'] }))
+      .toEqual({ added: [], modified: ['reverted.ts'], deleted: ['deleted.ts', 'untracked.ts'], renamed: [] });
+  });
+
+  it('pairs the two paths of a renamed file', () => {
+    const previous = { 'old.ts': 'hash1', 'kept.ts': 'hash2' };
+    const current = { 'new.ts': 'hash1', 'kept.ts': 'hash2', 'moved.ts': 'hash3' };
+    const entries = [
+      { status: 'renamed' as const, from: 'old.ts', path: 'new.ts' },
+      { status: 'renamed' as const, from: 'elsewhere/moved.ts', path: 'moved.ts' },
+      { status: 'renamed' as const, from: 'older.ts', path: 'new.ts' },
+      { status: 'renamed' as const, from: 'before.ts', path: 'kept.ts' },
+    ];
+    expect(classifyChanges(previous, current, { entries })).toEqual({
+      added: [],
+      modified: [],
+      deleted: [],
+      renamed: [{ from: 'old.ts', to: 'new.ts' }, { from: 'elsewhere/moved.ts', to: 'moved.ts' }],
+    });
+  });
+
+  it('tells files that were clean at the last success from new ones', () => {
+    const entries = [{ status: 'modified' as const, path: 'clean.ts' }, { status: 'added' as const, path: 'new.ts' }];
+    expect(classifyChanges({}, { 'clean.ts': 'hash1', 'new.ts': 'hash2', 'untracked.ts': 'hash3' }, { entries }))
+      .toEqual({ added: ['new.ts', 'untracked.ts'], modified: ['clean.ts'], deleted: [], renamed: [] });
+  });
+});
+
 // ---------------------------------------------------------------------------
 // computeFileHash
 // ---------------------------------------------------------------------------
@@ -171,6 +230,19 @@ describe('computeHashes', () => {
   });
 });
 
+describe('computeIndexHashes', () => {
+  it('hashes the staged content like computeHashes hashes the working tree', async () => {
+    vi.mocked(getIndexBlobs).mockResolvedValue({ 'src/a.ts': 'blobA', 'src/other.ts': 'blobO' });
+    vi.mocked(readBlob).mockResolvedValue(Buffer.from('staged A'));
+
+    const result = await computeIndexHashes('/root', ['src/a.ts', 'src/deleted.ts']);
+
+    expect(result).toEqual({ 'src/a.ts': createHash('sha256').update('staged A').digest('hex') });
+    expect(readBlob).toHaveBeenCalledExactlyOnceWith('blobA');
+    expect(mockReadFile).not.toHaveBeenCalled();
+  });
+});
+
 // ---------------------------------------------------------------------------
 // loadState
 // ---------------------------------------------------------------------------
@@ -223,6 +295,48 @@ describe('loadState', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// readStateFile
+// ---------------------------------------------------------------------------
+
+describe('readStateFile', () => {
+  it('returns every entry of the state file', () => {
+    const stateFile = { lint: { headSha: 'abc', divergedFileHashes: {} } };
+    mockReadFileSync.mockReturnValue(JSON.stringify(stateFile));
+    expect(readStateFile('/repo/state.json')).toEqual(stateFile);
+  });
+
+  it('returns an empty state when the file does not exist', () => {
+    mockReadFileSync.mockImplementation(() => {
+      throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+    });
+    expect(readStateFile('/repo/state.json')).toEqual({});
+  });
+});
+
+describe('readStateFileLocked', () => {
+  const statePath = '/repo/.claude/state.json';
+
+  it('reads the state file under the file lock', async () => {
+    const stateFile = { lint: { headSha: 'abc', divergedFileHashes: {} } };
+    mockReadFileSync.mockImplementation(() => {
+      // The lock is held while reading
+      expect(mockUnlink).not.toHaveBeenCalled();
+      return JSON.stringify(stateFile);
+    });
+
+    expect(await readStateFileLocked(statePath)).toEqual(stateFile);
+    expect(mockOpen).toHaveBeenCalledWith(`${statePath}.lock`, 'wx');
+    expect(mockUnlink).toHaveBeenCalledWith(`${statePath}.lock`);
+    expect(mockWriteFile).not.toHaveBeenCalled();
+  });
+
+  it('returns an empty state when the state file directory does not exist', async () => {
+    mockOpen.mockRejectedValueOnce(Object.assign(new Error('ENOENT'), { code: 'ENOENT' }));
+    expect(await readStateFileLocked(statePath)).toEqual({});
+  });
+});
+
 // ---------------------------------------------------------------------------
 // saveState
 // ---------------------------------------------------------------------------
@@ -334,3 +448,138 @@ describe('saveState', () => {
     expect(written['src/**/*.ts'].lastSuccessAt).toBeUndefined();
   });
 });
+
+// ---------------------------------------------------------------------------
+// recordFailure
+// ---------------------------------------------------------------------------
+
+describe('recordFailure', () => {
+  const statePath = '/root/.claude/delta-gate.state.local.json';
+
+  it('adds the failure signature without touching the existing snapshot', async () => {
+    const existing = {
+      'src/**/*.ts': { headSha: 'old', divergedFileHashes: { 'src/a.ts': 'hash1' }, lastSuccessAt: '2026-01-15T10:00:00.000Z' },
+    };
+    mockReadFile.mockResolvedValue(JSON.stringify(existing) as any);
+
+    await recordFailure(statePath, 'src/**/*.ts', 'newSha', 'sig1');
+
+    const written = JSON.parse(vi.mocked(mockWriteFile).mock.calls[0][1] as string);
+    expect(written['src/**/*.ts']).toMatchObject(existing['src/**/*.ts']);
+    expect(written['src/**/*.ts'].lastFailure.signature).toBe('sig1');
+    expect(typeof written['src/**/*.ts'].lastFailure.at).toBe('string');
+  });
+
+  it('stores the snapshots of the commands that passed', async () => {
+    const existing = {
+      'src/**/*.ts': { headSha: 'old', divergedFileHashes: {}, commandSnapshots: { stale: { headSha: 'old', divergedFileHashes: {}, lastSuccessAt: 'x' } } },
+    };
+    mockReadFile.mockResolvedValue(JSON.stringify(existing) as any);
+    const commandSnapshots = { abc: { headSha: 'newSha', divergedFileHashes: { 'src/a.ts': 'hash2' }, lastSuccessAt: '2026-01-16T10:00:00.000Z' } };
+
+    await recordFailure(statePath, 'src/**/*.ts', 'newSha', 'sig1', commandSnapshots);
+
+    const written = JSON.parse(vi.mocked(mockWriteFile).mock.calls[0][1] as string);
+    expect(written['src/**/*.ts'].commandSnapshots).toEqual(commandSnapshots);
+    expect(written['src/**/*.ts'].headSha).toBe('old');
+  });
+
+  it('creates an empty snapshot at headSha for a pattern without state', async () => {
+    mockReadFile.mockRejectedValue(new Error('ENOENT'));
+
+    await recordFailure(statePath, 'src/**/*.ts', 'headSha', 'sig1');
+
+    const written = JSON.parse(vi.mocked(mockWriteFile).mock.calls[0][1] as string);
+    expect(written['src/**/*.ts'].headSha).toBe('headSha');
+    expect(written['src/**/*.ts'].divergedFileHashes).toEqual({});
+    expect(written['src/**/*.ts'].lastSuccessAt).toBeUndefined();
+  });
+
+  it('acquires the state file lock', async () => {
+    mockReadFile.mockRejectedValue(new Error('ENOENT'));
+    await recordFailure(statePath, 'src/**/*.ts', 'headSha', 'sig1');
+    expect(mockOpen).toHaveBeenCalledWith(`${statePath}.lock`, 'wx');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// watcherStateKey — pure function, no mocks needed
+// ---------------------------------------------------------------------------
+
+describe('watcherStateKey', () => {
+  const lint = [{ run: 'npm run lint', name: 'npm run lint', needs: [] }];
+  const test = [{ run: 'npm test', name: 'npm test', needs: [] }];
+
+  it('returns the explicit id when given', () => {
+    expect(watcherStateKey('src/**/*.ts', lint, 'frontend-lint')).toBe('frontend-lint');
+  });
+
+  it('derives the key from the pattern and a hash of the commands', () => {
+    expect(watcherStateKey('src/**/*.ts', lint)).toMatch(/^src\/\*\*\/\*\.ts#[0-9a-f]{12}$/);
+  });
+
+  it('is stable for the same pattern and commands', () => {
+    expect(watcherStateKey('src/**/*.ts', lint)).toBe(watcherStateKey('src/**/*.ts', [...lint]));
+  });
+
+  it('differs when the commands differ', () => {
+    expect(watcherStateKey('src/**/*.ts', lint)).not.toBe(watcherStateKey('src/**/*.ts', test));
+  });
+});
+
+// ---------------------------------------------------------------------------
+// migrateState
+// ---------------------------------------------------------------------------
+
+describe('migrateState', () => {
+  const statePath = '/root/.claude/delta-gate.state.local.json';
+  const legacy = { headSha: 'abc', divergedFileHashes: { 'src/a.ts': 'hash1' } };
+
+  it('moves the state to the new key', async () => {
+    mockReadFile.mockResolvedValue(JSON.stringify({ 'src/**/*.ts': legacy }) as any);
+
+    await migrateState(statePath, 'src/**/*.ts', 'lint');
+
+    const written = JSON.parse(vi.mocked(mockWriteFile).mock.calls[0][1] as string);
+    expect(written).toEqual({ lint: legacy });
+  });
+
+  it('keeps the existing state of the new key', async () => {
+    const current = { headSha: 'def', divergedFileHashes: {} };
+    mockReadFile.mockResolvedValue(JSON.stringify({ 'src/**/*.ts': legacy, lint: current }) as any);
+
+    await migrateState(statePath, 'src/**/*.ts', 'lint');
+
+    const written = JSON.parse(vi.mocked(mockWriteFile).mock.calls[0][1] as string);
+    expect(written).toEqual({ 'src/**/*.ts': legacy, lint: current });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// removeStates
+// ---------------------------------------------------------------------------
+
+describe('removeStates', () => {
+  const statePath = '/root/.claude/delta-gate.state.local.json';
+  const entry = { headSha: 'abc', divergedFileHashes: {} };
+
+  it('removes the selected entries under the file lock and returns their keys', async () => {
+    mockReadFile.mockResolvedValue(JSON.stringify({ lint: entry, test: entry, build: entry }) as any);
+
+    const removed = await removeStates(statePath, (key) => key !== 'lint');
+
+    expect(removed).toEqual(['test', 'build']);
+    expect(mockOpen).toHaveBeenCalledWith(`${statePath}.lock`, 'wx');
+    const written = JSON.parse(vi.mocked(mockWriteFile).mock.calls[0][1] as string);
+    expect(written).toEqual({ lint: entry });
+  });
+
+  it('passes each entry to the predicate', async () => {
+    const old = { ...entry, lastSuccessAt: '2020-01-01T00:00:00.000Z' };
+    mockReadFile.mockResolvedValue(JSON.stringify({ lint: entry, old }) as any);
+
+    const removed = await removeStates(statePath, (_key, state) => state.lastSuccessAt !== undefined);
+
+    expect(removed).toEqual(['old']);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { formatStatus } from '../status.js';
+import type { WatcherStatus } from '../core.js';
+
+function status(overrides: Partial<WatcherStatus> = {}): WatcherStatus {
+  return {
+    id: 'lint',
+    pattern: 'src/**/*.ts',
+    pending: false,
+    added: [],
+    modified: [],
+    deleted: [],
+    renamed: [],
+    gateChanged: false,
+    headSha: 'a1b2c3d4e5f6',
+    lastSuccessAt: '2026-10-19T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// formatStatus — pure function, no mocks needed
+// ---------------------------------------------------------------------------
+
+describe('formatStatus', () => {
+  it('prints one aligned row per watcher', () => {
+    const output = formatStatus([status(), status({ id: 'backend-build', headSha: null, lastSuccessAt: null })]);
+    const lines = output.trimEnd().split('\n');
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toMatch(/^WATCHER\s+STATUS\s+NEW\s+MODIFIED\s+DELETED\s+RENAMED\s+HEAD\s+LAST SUCCESS$/);
+    expect(lines[1]).toMatch(/^lint\s+clean\s+0\s+0\s+0\s+0\s+a1b2c3d\s+2026-10-19T10:00:00.000Z$/);
+    expect(lines[2]).toMatch(/^backend-build\s+clean\s+0\s+0\s+0\s+0\s+-\s+never$/);
+    expect(lines[1].indexOf('clean')).toBe(lines[2].indexOf('clean'));
+  });
+
+  it('lists the pending files of pending watchers', () => {
+    const output = formatStatus([
+      status({
+        pending: true,
+        added: ['src/new.ts'],
+        modified: ['src/a.ts'],
+        deleted: ['src/old.ts'],
+        renamed: [{ from: 'src/b.ts', to: 'src/c.ts' }],
+      }),
+    ]);
+    expect(output).toMatch(/^lint\s+pending\s+1\s+1\s+1\s+1/m);
+    expect(output).toContain('lint:\n  new       src/new.ts\n  modified  src/a.ts\n  deleted   src/old.ts\n  renamed   src/b.ts -> src/c.ts\n');
+  });
+
+  it('mentions a changed gate', () => {
+    const output = formatStatus([status({ pending: true, gateChanged: true })]);
+    expect(output).toContain('lint (commands or inputs changed):');
+  });
+
+  it('explains when there is no watcher at all', () => {
+    expect(formatStatus([])).toMatch(/No watcher found/);
+  });
+});
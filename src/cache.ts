@@ -0,0 +1,123 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { mkdir, readFile, readdir, rename, stat, unlink, utimes, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { getGitCommonDir } from './git.js';
+
+/** Entries kept in the result cache before the least recently used ones are evicted */
+export const DEFAULT_CACHE_MAX_ENTRIES = 500;
+
+/** Temporary files older than this were left behind by a writer that died before renaming them */
+const STALE_TEMP_FILE_MS = 60 * 60 * 1000;
+
+/** A file set a gate already passed on */
+export interface CacheEntry {
+  /** Key of the watcher that passed, for humans browsing the cache */
+  id: string;
+  /** ISO-8601 timestamp of the run that passed */
+  passedAt: string;
+  /** Gate fingerprint of the run that passed */
+  fingerprint: string;
+  /** Map of relative file path -> content hash of the matching files diverging from HEAD the run passed on */
+  files: Record<string, string>;
+  /** Map of relative file path -> blob SHA of the other matching files, as committed at the HEAD the run passed on */
+  committedFiles: Record<string, string>;
+}
+
+/** What an entry is looked up by: the gate fingerprint and the content of every matching file, committed or not */
+export type CacheLookup = Pick<CacheEntry, 'fingerprint' | 'files' | 'committedFiles'>;
+
+/** Default cache location, inside the git directory so that every worktree shares it and git never sees it */
+export async function defaultCacheDir(): Promise<string> {
+  return join(await getGitCommonDir(), 'delta-gate', 'cache');
+}
+
+function sortedEntries(hashes: Record<string, string>): [string, string][] {
+  return Object.keys(hashes).sort().map((path) => [path, hashes[path]]);
+}
+
+/** Cache key of a gate run: its fingerprint plus the content of every matching file, whatever the HEAD. Committed
+ *  files count too: the same edit on top of two different commits is not the same file set. */
+export function cacheKey({ fingerprint, files, committedFiles }: CacheLookup): string {
+  const content = JSON.stringify([fingerprint, sortedEntries(files), sortedEntries(committedFiles)]);
+  return createHash('sha256').update(content).digest('hex');
+}
+
+function entryPath(cacheDir: string, key: string): string {
+  return join(cacheDir, `${key}.json`);
+}
+
+function sameHashes(actual: unknown, expected: Record<string, string>): boolean {
+  return typeof actual === 'object' && actual !== null
+    && Object.keys(actual).length === Object.keys(expected).length
+    && Object.entries(expected).every(([path, hash]) => (actual as Record<string, unknown>)[path] === hash);
+}
+
+/** True when an entry read back from the cache describes exactly this fingerprint and these files.
+ *  A shared cache may hold entries written by other versions, or damaged by hand. */
+function matchesEntry(entry: unknown, lookup: CacheLookup): entry is CacheEntry {
+  if (typeof entry !== 'object' || entry === null) {
+    return false;
+  }
+  const { fingerprint, files, committedFiles } = entry as Partial<CacheEntry>;
+  return fingerprint === lookup.fingerprint
+    && sameHashes(files, lookup.files)
+    && sameHashes(committedFiles, lookup.committedFiles);
+}
+
+/** Look up the entry of a gate fingerprint and file set, null on a miss. A hit counts as a use for the
+ *  LRU eviction, unless `touch` is false. */
+export async function readCacheEntry(cacheDir: string, lookup: CacheLookup, touch = true): Promise<CacheEntry | null> {
+  const path = entryPath(cacheDir, cacheKey(lookup));
+  let entry: unknown;
+  try {
+    entry = JSON.parse(await readFile(path, 'utf-8'));
+  } catch {
+    // Missing or unreadable entry: a miss
+    return null;
+  }
+  if (!matchesEntry(entry, lookup)) {
+    return null;
+  }
+  if (touch) {
+    const now = new Date();
+    await utimes(path, now, now).catch(() => {});
+  }
+  return entry;
+}
+
+/** Remove the least recently used entries until at most maxEntries remain, along with the temporary files
+ *  of writers that died. Other processes may evict at the same time: files already gone are fine. */
+async function evictCacheEntries(cacheDir: string, maxEntries: number): Promise<void> {
+  const files = await Promise.all(
+    (await readdir(cacheDir)).map(async (name) => {
+      const path = join(cacheDir, name);
+      const mtimeMs = await stat(path).then((s) => s.mtimeMs, () => 0);
+      return { name, path, mtimeMs };
+    }),
+  );
+  const entries = files.filter(({ name }) => name.endsWith('.json')).sort((a, b) => a.mtimeMs - b.mtimeMs);
+  const staleTempFiles = files.filter(({ name, mtimeMs }) =>
+    name.endsWith('.tmp') && mtimeMs < Date.now() - STALE_TEMP_FILE_MS);
+  const evicted = [...entries.slice(0, Math.max(0, entries.length - maxEntries)), ...staleTempFiles];
+  await Promise.all(evicted.map(({ path }) => unlink(path).catch(() => {})));
+}
+
+/** Store an entry, then evict the least recently used entries beyond maxEntries. The entry is written to a
+ *  temporary file then renamed, so that concurrent readers and writers never see a partial entry. */
+export async function writeCacheEntry(
+  cacheDir: string,
+  entry: CacheEntry,
+  maxEntries = DEFAULT_CACHE_MAX_ENTRIES,
+): Promise<void> {
+  await mkdir(cacheDir, { recursive: true });
+  const path = entryPath(cacheDir, cacheKey(entry));
+  const tempPath = `${path}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+  try {
+    await writeFile(tempPath, JSON.stringify(entry) + '\n');
+    await rename(tempPath, path);
+  } catch (err) {
+    await unlink(tempPath).catch(() => {});
+    throw err;
+  }
+  await evictCacheEntries(cacheDir, maxEntries);
+}
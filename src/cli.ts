@@ -1,38 +1,248 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
-import type { CliArgs } from './types.js';
-import { runWatcher } from './core.js';
+import { join, relative } from 'node:path';
+import { constants } from 'node:os';
+import { Command, Option } from 'commander';
+import type { CliArgs, HookContext, OutputFormat } from './types.js';
+import {
+  runWatcher,
+  runWatchers,
+  configWatcherTargets,
+  stateFileWatcherTargets,
+  getWatcherStatus,
+  acceptWatcher,
+} from './core.js';
+import type { WatcherResult, WatchersConfig, WatcherTarget } from './core.js';
+import { findConfigFile, loadConfig } from './config.js';
+import { getGitRoot } from './git.js';
+import { parseHookContext, formatHookOutput } from './hook.js';
+import { sequentialCommands, terminateRunningCommands } from './executor.js';
+import { formatStatus } from './status.js';
+import { readStateFileLocked, removeStates } from './state.js';
+import { toPatternSet, patternKey } from './patterns.js';
+import { parseReportTarget, writeReports, REPORT_FORMATS } from './reporters.js';
+import type { ReportTarget } from './reporters.js';
+import { install, uninstall, INSTALL_TARGETS, CLAUDE_HOOK_EVENTS } from './install.js';
+import type { InstallOptions, InstallResult } from './install.js';
 
 function collect(value: string, previous: string[]): string[] {
   return previous.concat([value]);
 }
 
-function parseCliArgs(): CliArgs {
+function collectCommaSeparated(value: string, previous: string[]): string[] {
+  return previous.concat(value.split(',').map((v) => v.trim()).filter(Boolean));
+}
+
+const DEFAULT_STATE_FILE = '.claude/delta-gate.state.local.json';
+
+/** Where subcommands find the watchers: the config file, else the state file */
+interface WatcherSourceOptions {
+  config?: string;
+  execTimeout: string;
+  untracked: boolean;
+  stateFile: string;
+}
+
+interface StatusOptions extends WatcherSourceOptions {
+  json: boolean;
+}
+
+/** Restricts a subcommand to some watchers */
+interface SelectOptions {
+  id?: string;
+  on: string[];
+  ignore: string[];
+}
+
+type AcceptOptions = WatcherSourceOptions & SelectOptions;
+type ResetOptions = Pick<WatcherSourceOptions, 'config' | 'stateFile'> & SelectOptions;
+type ShowOptions = Pick<WatcherSourceOptions, 'config' | 'stateFile'>;
+
+interface PruneOptions extends Pick<WatcherSourceOptions, 'config' | 'stateFile'> {
+  olderThan?: string;
+}
+
+type InstallCommandOptions = Required<Pick<InstallOptions, 'target' | 'local' | 'event'>>;
+
+function addWatcherSourceOptions(command: Command): Command {
+  return command
+    .option('--config <path>', 'Config file declaring the watchers (default: delta-gate.config.{json,mjs,ts} at git root, else every watcher of the state file)')
+    .option('--exec-timeout <seconds>', 'Default timeout of configured watchers, part of their fingerprint', '300')
+    .option('--no-untracked', 'Ignore untracked files')
+    .option('--state-file <path>', 'Path to the state file (relative to git root), unless the config declares one', DEFAULT_STATE_FILE);
+}
+
+function addSelectOptions(command: Command): Command {
+  return command
+    .option('--id <id>', 'Only the watcher with this state key')
+    .option('--on <glob>', 'Only the watchers with exactly these globs (repeatable)', collect, [])
+    .option('--ignore <glob>', 'Excluded globs of the watchers selected with --on (repeatable)', collect, []);
+}
+
+function buildProgram(): Command {
   const program = new Command();
   program
     .name('delta-gate')
     .description('Run commands when files matching a glob pattern change between executions')
-    .requiredOption('--on <glob>', 'Glob pattern to match changed files against')
-    .requiredOption('--exec <command>', 'Command to execute (repeatable, run in parallel)', collect, [])
+    // Keep options after a subcommand name for the subcommand itself
+    .enablePositionalOptions()
+    .option('--on <glob>', 'Glob pattern to match changed files against (repeatable, prefix with ! to exclude)', collect, [])
+    .option('--ignore <glob>', 'Glob pattern of files to exclude (repeatable)', collect, [])
+    .option('--id <id>', 'Identity of the watcher in the state file (default: the globs plus a hash of the commands)')
+    .option('--exec <command>', 'Command to execute (repeatable, run in parallel)', collect, [])
+    .option('--inputs <globs>', 'Comma-separated globs of extra files the commands depend on; any change re-runs them (repeatable)', collectCommaSeparated, [])
+    .option('--exec-sequential', 'Run --exec commands one after the other, stopping at the first failure', false)
+    .option('--fail-fast', 'Cancel the other commands of a watcher as soon as one of them fails', false)
+    .option('--max-parallel <n>', 'Maximum number of commands running at once, across all watchers (default: number of CPUs)')
+    .option('--since <ref>', 'Also run on the files changed since HEAD forked from this ref (e.g. origin/main on CI)')
+    .option('--staged', 'Only consider staged files, as they will be committed (for pre-commit hooks)', false)
+    .option('--cache', 'Skip the commands when they already passed on exactly the same file contents, even on another branch', false)
+    .option('--cache-dir <path>', 'Result cache directory, relative to git root, e.g. shared with CI (default: .git/delta-gate/cache); implies --cache')
+    .option('--config <path>', 'Config file declaring several watchers (default: delta-gate.config.{json,mjs,ts} at git root)')
     .option('--exec-timeout <seconds>', 'Timeout per command in seconds', '300')
     .option('--files-separator <sep>', 'Separator used in {{ON_CHANGES_RUN_*}} template vars', '\n')
+    .option('--no-untracked', 'Ignore untracked files (by default, untracked files that are not git-ignored are considered)')
     .option('--state-file <path>', 'Path to the state file (relative to git root)', '.claude/delta-gate.state.local.json')
-    .parse(process.argv);
+    .option('--dry-run', 'Detect changes and print the commands that would run, without running them nor updating the state file', false)
+    .option('--explain', 'Describe on stderr how changes were detected and why commands run or not', false)
+    .option('--report <format:path>', `Also write the results to a file, format being one of ${REPORT_FORMATS.join(', ')} (repeatable)`, collect, [])
+    .addOption(
+      new Option('--output-format <format>', 'Report failures as text on stderr (exit code 2) or as Claude Code hook JSON on stdout')
+        .choices(['text', 'claude-hook'])
+        .default('text'),
+    )
+    .action(() => runGate(toCliArgs(program)));
+
+  addWatcherSourceOptions(
+    program
+      .command('status')
+      .description('Show the changes each watcher would run its commands on, without running them (exit code 1 when some are pending)'),
+  )
+    .option('--json', 'Print the status as JSON', false)
+    .action((opts: StatusOptions) => runStatus(opts));
+
+  const state = program
+    .command('state')
+    .description('Inspect and edit the state file (safe to use while hooks are running)');
+  state
+    .command('show')
+    .description('Pretty-print the state file')
+    .option('--config <path>', 'Config file possibly declaring the state file')
+    .option('--state-file <path>', 'Path to the state file (relative to git root), unless the config declares one', DEFAULT_STATE_FILE)
+    .action((opts: ShowOptions) => runStateShow(opts));
+  addSelectOptions(
+    state
+      .command('reset')
+      .description('Forget the last success of the selected watchers (all by default), so that their commands run again')
+      .option('--config <path>', 'Config file possibly declaring the state file')
+      .option('--state-file <path>', 'Path to the state file (relative to git root), unless the config declares one', DEFAULT_STATE_FILE),
+  ).action((opts: ResetOptions) => runStateReset(opts));
+  state
+    .command('prune')
+    .description('Remove the entries of watchers no longer in the config file, and/or not run for some days')
+    .option('--config <path>', 'Config file declaring the watchers to keep (default: delta-gate.config.{json,mjs,ts} at git root)')
+    .option('--older-than <days>', 'Also remove entries without any successful or failed run for that many days')
+    .option('--state-file <path>', 'Path to the state file (relative to git root), unless the config declares one', DEFAULT_STATE_FILE)
+    .action((opts: PruneOptions) => runStatePrune(opts));
+  addSelectOptions(addWatcherSourceOptions(
+    state
+      .command('accept')
+      .description('Record the current changes of the selected watchers (all by default) as passing, without running their commands'),
+  )).action((opts: AcceptOptions) => runStateAccept(opts));
 
+  program
+    .command('install')
+    .description('Run delta-gate from Claude Code or from a git hook, keeping the hooks already there (installing again updates it)')
+    .argument('[args...]', 'Arguments of the installed delta-gate command, after -- (default: none, running the watchers of the config file)')
+    .addOption(new Option('--target <target>', 'Where to install delta-gate').choices(INSTALL_TARGETS).makeOptionMandatory())
+    .option('--local', 'claude target: write .claude/settings.local.json (not committed) rather than .claude/settings.json', false)
+    .addOption(new Option('--event <event>', 'claude target: hook event to run on').choices(CLAUDE_HOOK_EVENTS).default('Stop'))
+    .action((args: string[], opts: InstallCommandOptions) => runInstall(args, opts));
+  program
+    .command('uninstall')
+    .description('Remove what delta-gate install added, keeping every other hook')
+    .addOption(new Option('--target <target>', 'Where to uninstall delta-gate from').choices(INSTALL_TARGETS).makeOptionMandatory())
+    .option('--local', 'claude target: edit .claude/settings.local.json rather than .claude/settings.json', false)
+    .action((opts: Omit<InstallCommandOptions, 'event'>) => runUninstall(opts));
+
+  return program;
+}
+
+function toCliArgs(program: Command): CliArgs {
   const opts = program.opts<{
-    on: string;
+    on: string[];
+    ignore: string[];
+    id?: string;
     exec: string[];
+    inputs: string[];
+    config?: string;
     execTimeout: string;
     filesSeparator: string;
     stateFile: string;
+    outputFormat: OutputFormat;
+    execSequential: boolean;
+    untracked: boolean;
+    dryRun: boolean;
+    explain: boolean;
+    failFast: boolean;
+    maxParallel?: string;
+    since?: string;
+    staged: boolean;
+    cache: boolean;
+    cacheDir?: string;
+    report: string[];
   }>();
+
+  if (opts.on.length > 0 && opts.config !== undefined) {
+    program.error('error: --config cannot be combined with --on');
+  }
+  if (opts.on.length > 0 && opts.exec.length === 0) {
+    program.error("error: required option '--exec <command>' not specified");
+  }
+  if (opts.on.length === 0 && (opts.exec.length > 0 || opts.ignore.length > 0 || opts.id !== undefined || opts.inputs.length > 0)) {
+    program.error("error: required option '--on <glob>' not specified");
+  }
+
+  const reports: ReportTarget[] = [];
+  for (const spec of opts.report) {
+    const target = parseReportTarget(spec);
+    if (!target) {
+      program.error(`error: invalid --report "${spec}", expected <format>:<path> with format one of ${REPORT_FORMATS.join(', ')}`);
+    }
+    reports.push(target);
+  }
+
+  if (opts.staged && opts.since !== undefined) {
+    program.error('error: --staged cannot be combined with --since');
+  }
+
+  const maxParallel = opts.maxParallel !== undefined ? Number(opts.maxParallel) : undefined;
+  if (maxParallel !== undefined && !(Number.isInteger(maxParallel) && maxParallel > 0)) {
+    program.error(`error: invalid --max-parallel "${opts.maxParallel}", expected a positive integer`);
+  }
+
   return {
     on: opts.on,
+    ignore: opts.ignore,
+    id: opts.id,
     exec: opts.exec,
+    inputs: opts.inputs,
+    config: opts.config,
     execTimeout: parseInt(opts.execTimeout, 10),
     filesSeparator: opts.filesSeparator,
     stateFile: opts.stateFile,
+    outputFormat: opts.outputFormat,
+    execSequential: opts.execSequential,
+    untracked: opts.untracked,
+    dryRun: opts.dryRun,
+    explain: opts.explain,
+    failFast: opts.failFast,
+    maxParallel,
+    since: opts.since,
+    staged: opts.staged,
+    cache: opts.cache,
+    cacheDir: opts.cacheDir,
+    reports,
   };
 }
 
@@ -43,38 +253,244 @@ async function readStdin(): Promise<string> {
 
   return new Promise<string>((resolve) => {
     const chunks: Buffer[] = [];
-    process.stdin.on('data', (chunk: Buffer) => chunks.push(chunk));
-    process.stdin.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
-    process.stdin.on('error', () => resolve(''));
-
-    setTimeout(() => {
+    const timer = setTimeout(() => {
       process.stdin.destroy();
       resolve(Buffer.concat(chunks).toString('utf-8'));
     }, 1000);
+
+    process.stdin.on('data', (chunk: Buffer) => chunks.push(chunk));
+    process.stdin.on('end', () => {
+      clearTimeout(timer);
+      resolve(Buffer.concat(chunks).toString('utf-8'));
+    });
+    process.stdin.on('error', () => {
+      clearTimeout(timer);
+      resolve('');
+    });
   });
 }
 
-async function main(): Promise<void> {
-  const args = parseCliArgs();
+/** Load the config file at configPath, or the one found at the git root (null when there is none),
+ *  using CLI options as defaults */
+async function loadConfiguredWatchers(
+  configPath: string | undefined,
+  defaults: Pick<CliArgs, 'stateFile'> & Partial<Pick<CliArgs, 'execTimeout' | 'filesSeparator' | 'untracked'>>,
+): Promise<WatchersConfig | null> {
+  const path = configPath ?? (await findConfigFile(await getGitRoot()));
+  if (!path) {
+    return null;
+  }
+
+  const config = await loadConfig(path);
+  return {
+    stateFile: config.stateFile ?? defaults.stateFile,
+    watchers: config.watchers.map((watcher) => ({
+      ...watcher,
+      execTimeout: watcher.execTimeout ?? defaults.execTimeout,
+      filesSeparator: watcher.filesSeparator ?? defaults.filesSeparator,
+      untracked: watcher.untracked ?? defaults.untracked,
+    })),
+  };
+}
 
-  // Consume stdin (Claude Code hook context) without blocking
-  await readStdin();
+/** Run the watchers declared in a config file, using CLI options as defaults */
+async function runConfiguredWatchers(args: CliArgs, hookContext?: HookContext): Promise<WatcherResult[]> {
+  const config = await loadConfiguredWatchers(args.config, args);
+  if (!config) {
+    throw new Error(
+      'no watcher to run: pass --on <glob> --exec <command>, --config <path>, '
+      + 'or add a delta-gate.config.{json,mjs,ts} file at the git root',
+    );
+  }
+  return runWatchers(config, hookContext, args);
+}
 
-  const result = await runWatcher({
-    on: args.on,
-    exec: args.exec,
-    execTimeout: args.execTimeout,
-    filesSeparator: args.filesSeparator,
-    stateFile: args.stateFile,
+/** The watchers of the config file, or every watcher of the state file when there is no config */
+async function resolveWatcherTargets(opts: WatcherSourceOptions): Promise<WatcherTarget[]> {
+  const config = await loadConfiguredWatchers(opts.config, {
+    stateFile: opts.stateFile,
+    execTimeout: parseInt(opts.execTimeout, 10),
+    filesSeparator: '\n',
+    untracked: opts.untracked,
   });
+  return config ? configWatcherTargets(config) : stateFileWatcherTargets(opts.stateFile, opts.untracked);
+}
+
+/** Keep the watchers matching --id and --on, or all of them when neither is given */
+function selectWatcherTargets(targets: WatcherTarget[], opts: SelectOptions): WatcherTarget[] {
+  if (opts.id === undefined && opts.on.length === 0) {
+    return targets;
+  }
+
+  const pattern = opts.on.length > 0 ? patternKey(toPatternSet(opts.on, opts.ignore)) : undefined;
+  const selected = targets.filter((target) =>
+    (opts.id === undefined || target.key === opts.id) && (pattern === undefined || target.pattern === pattern));
+  if (selected.length === 0) {
+    throw new Error(`no watcher matches ${opts.id !== undefined ? `--id "${opts.id}"` : `--on "${pattern}"`}`);
+  }
+  return selected;
+}
+
+/** State file used by state subcommands: the one declared by the config, if any */
+async function resolveStateFile(opts: Pick<WatcherSourceOptions, 'config' | 'stateFile'>): Promise<string> {
+  const config = await loadConfiguredWatchers(opts.config, { stateFile: opts.stateFile });
+  return config?.stateFile ?? opts.stateFile;
+}
+
+function formatRemoved(removed: string[]): string {
+  return removed.length > 0 ? removed.map((key) => `Removed ${key}\n`).join('') : 'Nothing to remove\n';
+}
+
+/** `delta-gate status`: report pending changes of the configured watchers, or of every watcher in the state file */
+async function runStatus(opts: StatusOptions): Promise<void> {
+  const statuses = await Promise.all((await resolveWatcherTargets(opts)).map(getWatcherStatus));
+  const pending = statuses.some((status) => status.pending);
+
+  process.stdout.write(opts.json ? JSON.stringify({ pending, watchers: statuses }, null, 2) + '\n' : formatStatus(statuses));
+  process.exit(pending ? 1 : 0);
+}
 
-  if (!result.executed || result.success) {
+async function runStateShow(opts: ShowOptions): Promise<void> {
+  const statePath = join(await getGitRoot(), await resolveStateFile(opts));
+  process.stdout.write(JSON.stringify(await readStateFileLocked(statePath), null, 2) + '\n');
+  process.exit(0);
+}
+
+async function runStateReset(opts: ResetOptions): Promise<void> {
+  const stateFile = await resolveStateFile(opts);
+  const statePath = join(await getGitRoot(), stateFile);
+  const keys = new Set(selectWatcherTargets(await stateFileWatcherTargets(stateFile), opts).map((target) => target.key));
+  process.stdout.write(formatRemoved(await removeStates(statePath, (key) => keys.has(key))));
+  process.exit(0);
+}
+
+async function runStatePrune(opts: PruneOptions): Promise<void> {
+  const gitRoot = await getGitRoot();
+  const config = await loadConfiguredWatchers(opts.config, { stateFile: opts.stateFile });
+  if (!config && opts.olderThan === undefined) {
+    throw new Error('nothing to prune against: pass --older-than <days>, --config <path>, or add a delta-gate.config.{json,mjs,ts} file at the git root');
+  }
+
+  const statePath = join(gitRoot, config?.stateFile ?? opts.stateFile);
+  // Entries of configured watchers using this state file, including not yet migrated ones
+  const configured = config
+    ? new Set(configWatcherTargets(config)
+      .filter((target) => join(gitRoot, target.stateFile) === statePath)
+      .flatMap((target) => [target.key, target.legacyKey ?? target.key]))
+    : undefined;
+  const days = opts.olderThan !== undefined ? Number(opts.olderThan) : undefined;
+  if (days !== undefined && !(days >= 0)) {
+    throw new Error(`--older-than expects a number of days, got "${opts.olderThan}"`);
+  }
+  const cutoff = days !== undefined ? Date.now() - days * 24 * 3600 * 1000 : undefined;
+
+  const removed = await removeStates(statePath, (key, state) => {
+    if (configured && !configured.has(key)) {
+      return true;
+    }
+    const lastRunAt = Math.max(Date.parse(state.lastSuccessAt ?? '') || 0, Date.parse(state.lastFailure?.at ?? '') || 0);
+    return cutoff !== undefined && lastRunAt < cutoff;
+  });
+  process.stdout.write(formatRemoved(removed));
+  process.exit(0);
+}
+
+async function runStateAccept(opts: AcceptOptions): Promise<void> {
+  const targets = selectWatcherTargets(await resolveWatcherTargets(opts), opts);
+  const statuses = await Promise.all(targets.map(acceptWatcher));
+  for (const status of statuses) {
+    process.stdout.write(
+      `Accepted ${status.id} (${status.added.length} new, ${status.modified.length} modified, ${status.deleted.length} deleted, ${status.renamed.length} renamed)\n`,
+    );
+  }
+  process.exit(0);
+}
+
+function installedPath(result: InstallResult): string {
+  return relative(process.cwd(), result.path) || result.path;
+}
+
+async function runInstall(args: string[], opts: InstallCommandOptions): Promise<void> {
+  const result = await install({ ...opts, args });
+  process.stdout.write(result.changed
+    ? `Installed delta-gate in ${installedPath(result)}\n`
+    : `delta-gate already installed in ${installedPath(result)}\n`);
+  process.exit(0);
+}
+
+async function runUninstall(opts: Omit<InstallCommandOptions, 'event'>): Promise<void> {
+  const result = await uninstall(opts);
+  process.stdout.write(result.changed
+    ? `Removed delta-gate from ${installedPath(result)}\n`
+    : `delta-gate not installed in ${installedPath(result)}\n`);
+  process.exit(0);
+}
+
+/** Terminate the running commands before exiting on SIGINT or SIGTERM, rather than leaving them orphaned.
+ *  Returns a function removing the handlers. */
+function handleTerminationSignals(): () => void {
+  const onSignal = (signal: NodeJS.Signals) => {
+    process.stderr.write(`delta-gate: received ${signal}, terminating running commands\n`);
+    void terminateRunningCommands().then(() => process.exit(128 + constants.signals[signal]));
+  };
+  process.on('SIGINT', onSignal);
+  process.on('SIGTERM', onSignal);
+  return () => {
+    process.off('SIGINT', onSignal);
+    process.off('SIGTERM', onSignal);
+  };
+}
+
+async function runGate(args: CliArgs): Promise<void> {
+  // Read the Claude Code hook context (if any) without blocking
+  const hookContext = parseHookContext(await readStdin());
+
+  // Hooks run from the session's working directory, which may differ from the hook process cwd
+  if (hookContext?.cwd) {
+    process.chdir(hookContext.cwd);
+  }
+
+  const removeSignalHandlers = handleTerminationSignals();
+  let results: WatcherResult[];
+  try {
+    results = args.on.length > 0
+      ? [
+        await runWatcher({
+          id: args.id,
+          on: args.on,
+          ignore: args.ignore,
+          exec: args.execSequential ? sequentialCommands(args.exec) : args.exec,
+          inputs: args.inputs,
+          execTimeout: args.execTimeout,
+          filesSeparator: args.filesSeparator,
+          stateFile: args.stateFile,
+          untracked: args.untracked,
+        }, hookContext, args),
+      ]
+      : await runConfiguredWatchers(args, hookContext);
+  } finally {
+    removeSignalHandlers();
+  }
+
+  await writeReports(results, args.reports);
+
+  // Claude Code only reads the hook JSON on exit code 0: blocking is expressed in the JSON itself
+  if (args.outputFormat === 'claude-hook') {
+    process.stdout.write(JSON.stringify(formatHookOutput(results, hookContext)) + '\n');
+    process.exit(0);
+  }
+
+  if (results.every((result) => !result.executed || result.success || result.repeatedFailure)) {
     process.exit(0);
   }
 
   process.exit(2);
 }
 
+async function main(): Promise<void> {
+  await buildProgram().parseAsync(process.argv);
+}
+
 main().catch((err: unknown) => {
   process.stderr.write(`delta-gate: fatal error: ${err}\n`);
   process.exit(1);
@@ -0,0 +1,227 @@
+import { readFile, access } from 'node:fs/promises';
+import { join, resolve, extname } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { WatcherConfig, WatchersConfig } from './core.js';
+import type { CommandConfig } from './types.js';
+import { resolveCommands, findCommandGraphErrors } from './executor.js';
+
+/** Config file names looked up at the git root, in order of precedence */
+export const CONFIG_FILE_NAMES = [
+  'delta-gate.config.json',
+  'delta-gate.config.mjs',
+  'delta-gate.config.ts',
+];
+
+const WATCHERS_CONFIG_KEYS = ['stateFile', 'watchers'];
+const WATCHER_CONFIG_KEYS = ['id', 'on', 'ignore', 'exec', 'execTimeout', 'filesSeparator', 'stateFile', 'untracked', 'inputs'];
+const COMMAND_SPEC_KEYS = ['run', 'name', 'needs', 'cwd', 'timeout', 'env', 'shell', 'exclusive', 'retries', 'retryDelay', 'retryOn'];
+
+const TYPESCRIPT_RUNTIME_HINT = 'Node >= 22.18, or Node >= 22.6 with --experimental-strip-types';
+
+/** True when this Node.js runtime imports TypeScript files natively */
+export function canImportTypeScript(): boolean {
+  return Boolean((process.features as { typescript?: string | false }).typescript);
+}
+
+/** Returns the absolute path of the first config file found at the git root, or null.
+ *  A .ts config is skipped, with a note, when this runtime cannot import it. */
+export async function findConfigFile(gitRoot: string): Promise<string | null> {
+  for (const name of CONFIG_FILE_NAMES) {
+    const candidate = join(gitRoot, name);
+    try {
+      await access(candidate);
+    } catch {
+      // Not there, try the next one
+      continue;
+    }
+    if (extname(name) === '.ts' && !canImportTypeScript()) {
+      process.stderr.write(
+        `delta-gate: ignoring ${name}: Node.js ${process.versions.node} cannot import TypeScript files `
+        + `(${TYPESCRIPT_RUNTIME_HINT}), use delta-gate.config.mjs or delta-gate.config.json instead\n`,
+      );
+      continue;
+    }
+    return candidate;
+  }
+  return null;
+}
+
+/** Read a config file (JSON, or an ES module exporting the config as default) without validating it */
+async function readConfigFile(configPath: string): Promise<unknown> {
+  if (extname(configPath) === '.json') {
+    const raw = await readFile(configPath, 'utf-8');
+    try {
+      return JSON.parse(raw);
+    } catch (err) {
+      throw new Error(`Invalid JSON in config file ${configPath}: ${(err as Error).message}`);
+    }
+  }
+
+  try {
+    const mod = await import(pathToFileURL(configPath).href);
+    return mod.default;
+  } catch (err) {
+    const hint = extname(configPath) === '.ts'
+      ? ` (loading a .ts config requires a Node.js runtime able to import TypeScript: ${TYPESCRIPT_RUNTIME_HINT})`
+      : '';
+    throw new Error(`Could not load config file ${configPath}${hint}: ${(err as Error).message}`);
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isGlobList(value: unknown): boolean {
+  const globs = Array.isArray(value) ? value : [value];
+  return globs.length > 0 && globs.every((glob) => typeof glob === 'string' && glob !== '');
+}
+
+function checkUnknownKeys(
+  value: Record<string, unknown>,
+  allowed: string[],
+  path: string,
+  errors: string[],
+): void {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) {
+      errors.push(`${path}${key}: unknown key`);
+    }
+  }
+}
+
+function validateCommand(raw: unknown, path: string, errors: string[]): void {
+  if (typeof raw === 'string') {
+    if (raw === '') errors.push(`${path}: expected a non-empty command string`);
+    return;
+  }
+  if (!isPlainObject(raw)) {
+    errors.push(`${path}: expected a command string or a command object with a "run" key`);
+    return;
+  }
+  checkUnknownKeys(raw, COMMAND_SPEC_KEYS, `${path}.`, errors);
+  if (typeof raw.run !== 'string' || raw.run === '') {
+    errors.push(`${path}.run: expected a non-empty command string`);
+  }
+  if (raw.name !== undefined && (typeof raw.name !== 'string' || raw.name === '')) {
+    errors.push(`${path}.name: expected a non-empty string`);
+  }
+  if (raw.needs !== undefined && (!Array.isArray(raw.needs) || raw.needs.some((n) => typeof n !== 'string'))) {
+    errors.push(`${path}.needs: expected an array of command names`);
+  }
+  if (raw.cwd !== undefined && (typeof raw.cwd !== 'string' || raw.cwd === '')) {
+    errors.push(`${path}.cwd: expected a non-empty path string`);
+  }
+  if (raw.timeout !== undefined && (typeof raw.timeout !== 'number' || !(raw.timeout > 0))) {
+    errors.push(`${path}.timeout: expected a positive number of seconds`);
+  }
+  if (raw.env !== undefined && (!isPlainObject(raw.env) || Object.values(raw.env).some((v) => typeof v !== 'string'))) {
+    errors.push(`${path}.env: expected an object of string values`);
+  }
+  if (raw.shell !== undefined && (typeof raw.shell !== 'string' || raw.shell === '')) {
+    errors.push(`${path}.shell: expected a non-empty string`);
+  }
+  if (raw.exclusive !== undefined && typeof raw.exclusive !== 'boolean') {
+    errors.push(`${path}.exclusive: expected a boolean`);
+  }
+  if (raw.retries !== undefined && !(Number.isInteger(raw.retries) && (raw.retries as number) >= 0)) {
+    errors.push(`${path}.retries: expected a non-negative integer`);
+  }
+  if (raw.retryDelay !== undefined && (typeof raw.retryDelay !== 'number' || !(raw.retryDelay >= 0))) {
+    errors.push(`${path}.retryDelay: expected a non-negative number of seconds`);
+  }
+  if (raw.retryOn !== undefined && (!Array.isArray(raw.retryOn) || raw.retryOn.length === 0 || !raw.retryOn.every(Number.isInteger))) {
+    errors.push(`${path}.retryOn: expected a non-empty array of exit codes`);
+  }
+}
+
+function validateWatcher(raw: unknown, path: string, errors: string[]): WatcherConfig | null {
+  if (!isPlainObject(raw)) {
+    errors.push(`${path}: expected an object`);
+    return null;
+  }
+  checkUnknownKeys(raw, WATCHER_CONFIG_KEYS, `${path}.`, errors);
+
+  const errorCount = errors.length;
+  if (raw.id !== undefined && (typeof raw.id !== 'string' || raw.id === '')) {
+    errors.push(`${path}.id: expected a non-empty string`);
+  }
+  if (!isGlobList(raw.on)) {
+    errors.push(`${path}.on: expected a non-empty glob pattern string or array of glob patterns`);
+  }
+  if (raw.ignore !== undefined && !isGlobList(raw.ignore)) {
+    errors.push(`${path}.ignore: expected a non-empty glob pattern string or array of glob patterns`);
+  }
+  if (!Array.isArray(raw.exec) || raw.exec.length === 0) {
+    errors.push(`${path}.exec: expected a non-empty array of commands`);
+  } else {
+    const commandErrorCount = errors.length;
+    raw.exec.forEach((cmd, i) => validateCommand(cmd, `${path}.exec[${i}]`, errors));
+    // The dependency graph is only meaningful once every command is well-formed
+    if (errors.length === commandErrorCount) {
+      for (const graphError of findCommandGraphErrors(resolveCommands(raw.exec as CommandConfig[]))) {
+        errors.push(`${path}.exec: ${graphError}`);
+      }
+    }
+  }
+  if (raw.execTimeout !== undefined && (typeof raw.execTimeout !== 'number' || !(raw.execTimeout > 0))) {
+    errors.push(`${path}.execTimeout: expected a positive number of seconds`);
+  }
+  if (raw.filesSeparator !== undefined && typeof raw.filesSeparator !== 'string') {
+    errors.push(`${path}.filesSeparator: expected a string`);
+  }
+  if (raw.stateFile !== undefined && (typeof raw.stateFile !== 'string' || raw.stateFile === '')) {
+    errors.push(`${path}.stateFile: expected a non-empty path string`);
+  }
+  if (raw.untracked !== undefined && typeof raw.untracked !== 'boolean') {
+    errors.push(`${path}.untracked: expected a boolean`);
+  }
+  if (raw.inputs !== undefined && (!Array.isArray(raw.inputs) || !isGlobList(raw.inputs))) {
+    errors.push(`${path}.inputs: expected a non-empty array of glob patterns`);
+  }
+
+  return errors.length === errorCount ? (raw as unknown as WatcherConfig) : null;
+}
+
+/** Validate a raw config object, throwing an error that lists every problem found */
+export function validateConfig(raw: unknown, source: string): WatchersConfig {
+  const errors: string[] = [];
+  const watchers: WatcherConfig[] = [];
+
+  if (!isPlainObject(raw)) {
+    errors.push('expected the config to be an object with a "watchers" array');
+  } else {
+    checkUnknownKeys(raw, WATCHERS_CONFIG_KEYS, '', errors);
+    if (raw.stateFile !== undefined && (typeof raw.stateFile !== 'string' || raw.stateFile === '')) {
+      errors.push('stateFile: expected a non-empty path string');
+    }
+    if (!Array.isArray(raw.watchers) || raw.watchers.length === 0) {
+      errors.push('watchers: expected a non-empty array of watchers');
+    } else {
+      const ids = new Set<string>();
+      raw.watchers.forEach((w, i) => {
+        const watcher = validateWatcher(w, `watchers[${i}]`, errors);
+        if (!watcher) return;
+        if (watcher.id !== undefined) {
+          if (ids.has(watcher.id)) errors.push(`watchers[${i}].id: duplicate id "${watcher.id}"`);
+          ids.add(watcher.id);
+        }
+        watchers.push(watcher);
+      });
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid config in ${source}:\n${errors.map((e) => `  - ${e}`).join('\n')}`);
+  }
+
+  const { stateFile } = raw as { stateFile?: string };
+  return { ...(stateFile !== undefined ? { stateFile } : {}), watchers };
+}
+
+/** Load and validate the config file at configPath (relative paths are resolved from cwd) */
+export async function loadConfig(configPath: string): Promise<WatchersConfig> {
+  const absolutePath = resolve(configPath);
+  const raw = await readConfigFile(absolutePath);
+  return validateConfig(raw, absolutePath);
+}
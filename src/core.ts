@@ -1,108 +1,826 @@
-import { join } from 'node:path';
+import { createHash } from 'node:crypto';
+import { lstat, mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
 import picomatch from 'picomatch';
-import type { PatternState } from './types.js';
-import { getGitRoot, getHeadSha, getDiffFiles, getDiffFilesBetweenCommits } from './git.js';
-import { computeHashes, loadState, saveState, findChangedFiles } from './state.js';
-import { executeAll, printFailures } from './executor.js';
+import type {
+  CommandConfig,
+  CommandResult,
+  CommandSnapshot,
+  DiffEntry,
+  FileChanges,
+  HistoryFallback,
+  HookContext,
+  PatternState,
+  RenamedFile,
+} from './types.js';
+import {
+  getGitRoot,
+  getHeadSha,
+  getDiffEntries,
+  getDiffEntriesBetweenCommits,
+  getDiffEntriesSince,
+  getStagedEntries,
+  getUntrackedFiles,
+  checkoutIndex,
+  getRepoFiles,
+  getTreeBlobs,
+  isCommitAvailable,
+  isAncestor,
+  getMergeBase,
+} from './git.js';
+import {
+  computeHashes,
+  computeIndexHashes,
+  loadState,
+  saveState,
+  migrateState,
+  recordFailure,
+  findChangedFiles,
+  classifyChanges,
+  readStateFile,
+  watcherStateKey,
+} from './state.js';
+import { executeAll, printFailures, resolveCommands, findCommandGraphErrors } from './executor.js';
+import type { ResolvedCommand } from './executor.js';
+import { createLimiter } from './limiter.js';
+import type { Limiter } from './limiter.js';
+import { toPatternSet, createMatcher, patternKey } from './patterns.js';
+import { formatExplanation, formatDryRunCommands, describeHistoryFallback } from './explain.js';
+import { defaultCacheDir, readCacheEntry, writeCacheEntry } from './cache.js';
+import type { CacheLookup } from './cache.js';
+import type { PatternSet } from './patterns.js';
 
 export interface WatcherConfig {
-  on: string;
-  exec: string[];
+  /** Identity of the watcher in the state file (default: its patterns plus a hash of its commands) */
+  id?: string;
+  /** Glob pattern(s) selecting the watched files; `!`-prefixed globs exclude files */
+  on: string | string[];
+  /** Glob pattern(s) of files to exclude */
+  ignore?: string | string[];
+  /** Commands to run; see CommandSpec for named commands with dependencies */
+  exec: CommandConfig[];
   execTimeout?: number;
   filesSeparator?: string;
   stateFile?: string;
+  /** Also consider untracked files that are not ignored (default: true) */
+  untracked?: boolean;
+  /** Glob pattern(s) of extra files the commands depend on (tsconfig.json, .eslintrc*...):
+   *  any change to them re-runs the commands over every matching diverged file */
+  inputs?: string[];
 }
 
 export interface WatchersConfig {
-  stateFile: string;
-  watchers: Omit<WatcherConfig, 'stateFile'>[];
+  /** Default state file for watchers that do not declare their own */
+  stateFile?: string;
+  watchers: WatcherConfig[];
 }
 
 export interface WatcherResult {
+  /** Key of the watcher in the state file */
+  id: string;
+  /** Canonical identity of the watcher's pattern set (the glob itself for a single `on` glob) */
   pattern: string;
   changedFiles: string[];
+  /** Changed files git detected as renamed, with their previous path */
+  renamedFiles?: RenamedFile[];
   executed: boolean;
   success: boolean;
-  failures: Array<{ command: string; exitCode: number; stdout: string; stderr: string }>;
+  /** Commands that failed, were skipped because a command they need failed, or were cancelled by `failFast` */
+  failures: CommandResult[];
+  /** Result of every command, in declaration order (empty when the commands did not run) */
+  commands: CommandResult[];
+  /** Wall-clock time spent running the commands, when they ran */
+  durationMs?: number;
+  /** True when the failures are identical to the ones that already blocked the previous Stop
+   *  (`stop_hook_active`), so they should not block again */
+  repeatedFailure?: boolean;
+  /** True when the commands did not run because the result cache knows they passed on these files */
+  cached?: boolean;
+  /** Set when the previous HEAD could not be compared with the current one directly (rewritten history) */
+  historyFallback?: HistoryFallback;
+}
+
+/** Pending changes of a watcher, as `runWatcher` would see them, without running anything */
+export interface WatcherStatus {
+  /** Key of the watcher in the state file */
+  id: string;
+  pattern: string;
+  /** True when running the watcher would execute its commands */
+  pending: boolean;
+  /** Diverged files that were not in the last successful snapshot */
+  added: string[];
+  /** Files whose content changed since the last successful snapshot, reverted ones included */
+  modified: string[];
+  /** Files of the last successful snapshot that were deleted (reverted ones count as modified) */
+  deleted: string[];
+  /** Files git detected as renamed since the last successful snapshot, with their previous path */
+  renamed: RenamedFile[];
+  /** Commands or inputs changed since the last success (only known for configured watchers) */
+  gateChanged: boolean;
+  /** HEAD at the time of the last recorded run, null when the watcher never ran */
+  headSha: string | null;
+  lastSuccessAt: string | null;
+}
+
+/** How to run watchers, as opposed to what they watch */
+export interface RunOptions {
+  /** Detect changes and print the commands that would run, without running them nor writing state */
+  dryRun?: boolean;
+  /** Describe every detection step on stderr: diff files, HEAD move, hashes, and the final decision */
+  explain?: boolean;
+  /** Cancel the other commands of a watcher as soon as one of them fails */
+  failFast?: boolean;
+  /** Maximum number of commands running at once (default: the number of CPUs) */
+  maxParallel?: number;
+  /** Concurrency limit shared with other watchers; `runWatchers` creates one from `maxParallel` */
+  limiter?: Limiter;
+  /** Skip the commands when a previous run of the same gate passed on exactly the same file contents,
+   *  even on another branch or before a revert */
+  cache?: boolean;
+  /** Also consider the files changed on HEAD's side since it forked from this ref (`git diff <ref>...HEAD`),
+   *  e.g. `origin/main` on CI, where a clean checkout has no diverged file and no previous state */
+  since?: string;
+  /** Only consider staged files, hashed as they will be committed, for pre-commit hooks. Their staged content
+   *  is checked out to a temporary directory, given to the commands as `{{STAGED_CHECKOUT_DIR}}`. */
+  staged?: boolean;
+  /** Result cache directory, absolute or relative to the git root, possibly shared with other machines
+   *  (default: `.git/delta-gate/cache`). Setting it enables the cache. */
+  cacheDir?: string;
 }
 
 const DEFAULT_STATE_FILE = '.claude/delta-gate.state.local.json';
 const DEFAULT_EXEC_TIMEOUT = 300;
 const DEFAULT_FILES_SEPARATOR = '\n';
 
-/** Run a single watcher: detect changes for a glob pattern and execute commands if needed. */
-export async function runWatcher(config: WatcherConfig): Promise<WatcherResult> {
-  const {
-    on: pattern,
-    exec: commands,
-    execTimeout = DEFAULT_EXEC_TIMEOUT,
-    filesSeparator = DEFAULT_FILES_SEPARATOR,
-    stateFile = DEFAULT_STATE_FILE,
-  } = config;
+/** Hash failed commands and their output; digits are normalized so durations, timestamps or PIDs
+ *  in the output do not make two runs of the same failure look different. */
+function failureSignature(failures: CommandResult[]): string {
+  const hash = createHash('sha256');
+  for (const f of failures) {
+    hash.update(JSON.stringify([f.command, f.exitCode, f.stdout, f.stderr]).replace(/\d+/g, '#'));
+  }
+  return hash.digest('hex');
+}
+
+/** Content hashes of the files declared with `inputs`. Literal input paths are read even when git-ignored. */
+async function computeInputHashes(gitRoot: string, inputs: string[]): Promise<Record<string, string>> {
+  if (inputs.length === 0) {
+    return {};
+  }
+  const isInput = createMatcher({ include: inputs, exclude: [] });
+  const literalInputs = inputs.filter((input) => !picomatch.scan(input).isGlob);
+  const inputFiles = [...new Set([...literalInputs, ...(await getRepoFiles()).filter((f) => isInput(f))])].sort();
+  return computeHashes(gitRoot, inputFiles);
+}
+
+/** Hash of everything the gate's outcome depends on besides the watched files: commands, timeout and
+ *  the content of the declared input files */
+function computeGateFingerprint(
+  commands: ResolvedCommand[],
+  execTimeout: number,
+  inputHashes: Record<string, string>,
+): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ commands, execTimeout, inputs: inputHashes }))
+    .digest('hex');
+}
+
+/** Hash of each command, by name, covering everything its own outcome depends on: its declaration and
+ *  timeout, the declared input files and the commands it needs. Empty for an invalid command graph. */
+function computeCommandFingerprints(
+  commands: ResolvedCommand[],
+  execTimeout: number,
+  inputHashes: Record<string, string>,
+): Record<string, string> {
+  if (findCommandGraphErrors(commands).length > 0) {
+    return {};
+  }
+  const byName = new Map(commands.map((cmd) => [cmd.name, cmd]));
+  const fingerprints: Record<string, string> = {};
+  const fingerprintOf = (cmd: ResolvedCommand): string => {
+    fingerprints[cmd.name] ??= createHash('sha256')
+      .update(JSON.stringify({
+        command: cmd,
+        timeout: cmd.timeout ?? execTimeout,
+        inputs: inputHashes,
+        needs: cmd.needs.map((need) => fingerprintOf(byName.get(need)!)),
+      }))
+      .digest('hex');
+    return fingerprints[cmd.name];
+  };
+  commands.forEach(fingerprintOf);
+  return fingerprints;
+}
+
+/** Directory of the result cache, undefined when the cache is not enabled */
+async function resolveCacheDir(options: RunOptions, gitRoot: string): Promise<string | undefined> {
+  if (options.cacheDir !== undefined) {
+    return resolve(gitRoot, options.cacheDir);
+  }
+  return options.cache ? defaultCacheDir() : undefined;
+}
+
+/** Result cache lookup of a gate run: the hashes of the matching files diverging from HEAD, and the blobs of the
+ *  other matching files as committed at HEAD, so that the same edit on top of two commits is not mistaken for
+ *  the same file set */
+async function cacheLookup(detection: ChangeDetection, patterns: PatternSet, fingerprint: string): Promise<CacheLookup> {
+  const { gitRoot, headSha, diffFiles, currentHashes } = detection;
+  // Files committed since the previous run are hashed too: they are described by their blob, as on any other HEAD
+  const diverged = new Set(diffFiles);
+  const isMatch = createMatcher(patterns);
+  const files = Object.fromEntries(Object.entries(currentHashes).filter(([path]) => diverged.has(path)));
+  const committedFiles = Object.fromEntries(
+    Object.entries(await getTreeBlobs(gitRoot, headSha)).filter(([path]) => isMatch(path) && !diverged.has(path)),
+  );
+  return { fingerprint, files, committedFiles };
+}
+
+/** True when a command already passed at this HEAD on exactly these file contents */
+function isUpToDate(snapshot: CommandSnapshot | undefined, headSha: string, snapshotHashes: Record<string, string>): boolean {
+  return snapshot !== undefined
+    && snapshot.headSha === headSha
+    && findChangedFiles(snapshot.divergedFileHashes, snapshotHashes).length === 0;
+}
+
+/** Command snapshots to store after a run: a fresh one for the commands that just passed, the previous one
+ *  for the others. Commands no longer declared are dropped. */
+function updateCommandSnapshots(
+  detection: ChangeDetection,
+  passed: (name: string) => boolean,
+): Record<string, CommandSnapshot> | undefined {
+  const { commandFingerprints, previousState, headSha, snapshotHashes } = detection;
+  if (!commandFingerprints) {
+    return previousState?.commandSnapshots;
+  }
+  const lastSuccessAt = new Date().toISOString();
+  const snapshots: Record<string, CommandSnapshot> = {};
+  for (const [name, fingerprint] of Object.entries(commandFingerprints)) {
+    const snapshot = passed(name)
+      ? { headSha, divergedFileHashes: snapshotHashes, lastSuccessAt }
+      : previousState?.commandSnapshots?.[fingerprint];
+    if (snapshot) {
+      snapshots[fingerprint] = snapshot;
+    }
+  }
+  return snapshots;
+}
+
+/** A watcher as far as its state is concerned, known from its config or from its state file entry only */
+export interface WatcherTarget {
+  /** Key of the watcher in the state file */
+  key: string;
+  /** Canonical identity of the watcher's pattern set */
+  pattern: string;
+  patterns: PatternSet;
+  stateFile: string;
+  untracked: boolean;
+  /** Key the state may still be stored under (state files written before watcher ids) */
+  legacyKey?: string;
+  /** Gate fingerprint to compare with the stored one; omitted when the commands are unknown */
+  fingerprint?: (gitRoot: string) => Promise<string>;
+  /** Fingerprint of each command, by name, keying its snapshot; omitted when the commands are unknown */
+  commandFingerprints?: (gitRoot: string) => Promise<Record<string, string>>;
+}
+
+/** Outcome of comparing the working tree with the last successful snapshot of a watcher */
+export interface ChangeDetection {
+  gitRoot: string;
+  statePath: string;
+  headSha: string;
+  previousState: PatternState | null;
+  /** Set when previousState was found under the legacy key and still has to be migrated */
+  migrateFrom?: string;
+  /** Every file diverging from HEAD (diff, staged and untracked), matching or not; staged files only with `staged` */
+  diffFiles: string[];
+  /** True when only staged files were considered, hashed as they are in the index */
+  staged?: boolean;
+  /** Base ref given with `since`, and the files changed since it forked, matching or not */
+  since?: { ref: string; files: string[] };
+  /** Files changed by the commits between the previous state's HEAD and the current one, matching or not */
+  commitDiffFiles: string[];
+  /** Set when commitDiffFiles could not be computed from the previous HEAD directly */
+  historyFallback?: HistoryFallback;
+  /** Files git detected as renamed, in the diff, since the base ref or in the commits, matching or not */
+  renames: RenamedFile[];
+  matchingFiles: string[];
+  currentHashes: Record<string, string>;
+  /** The current hashes of the files that stay candidates at this HEAD (diverging, or changed since the base ref):
+   *  what a success records. Files only committed since the previous run are left out, as they no longer diverge. */
+  snapshotHashes: Record<string, string>;
+  fingerprint?: string;
+  fingerprintChanged: boolean;
+  changedFiles: string[];
+  /** Differences with the last successful snapshot, as added, modified, deleted and renamed files */
+  changes: FileChanges;
+  commandFingerprints?: Record<string, string>;
+}
+
+/** Changes given to the commands: when the gate itself changed, the files it did not check yet count as modified */
+function commandChanges({ changes, changedFiles, fingerprintChanged }: ChangeDetection): FileChanges {
+  if (!fingerprintChanged) {
+    return changes;
+  }
+  const listed = new Set([...changes.added, ...changes.modified, ...changes.deleted, ...changes.renamed.map(({ to }) => to)]);
+  return { ...changes, modified: [...changes.modified, ...changedFiles.filter((f) => !listed.has(f))] };
+}
+
+/** Rename pairs of diff entries, once per renamed file */
+function renamesOf(entries: DiffEntry[]): RenamedFile[] {
+  const renames = new Map<string, RenamedFile>();
+  for (const { status, from, path } of entries) {
+    if (status === 'renamed' && !renames.has(path)) renames.set(path, { from: from!, to: path });
+  }
+  return [...renames.values()];
+}
+
+/** Files committed between the previous run's HEAD and the current one. History may have been rewritten since:
+ *  a previous HEAD that is no longer an ancestor (amend, rebase, reset) is compared through the merge-base of
+ *  both HEADs, and one that no longer exists (garbage-collected) leaves every file of the working tree to re-check. */
+async function findCommittedFiles(
+  previousSha: string,
+  headSha: string,
+  untracked: boolean,
+): Promise<{ entries: DiffEntry[]; historyFallback?: HistoryFallback }> {
+  try {
+    if (await isCommitAvailable(previousSha)) {
+      if (await isAncestor(previousSha, headSha)) {
+        return { entries: await getDiffEntriesBetweenCommits(previousSha, headSha) };
+      }
+      const mergeBase = await getMergeBase(previousSha, headSha);
+      if (mergeBase !== null) {
+        // Changes on both sides of the fork: the rewritten commits, and the ones replacing them, which describe
+        // the files of HEAD best
+        const [rewritten, replacing] = await Promise.all([
+          getDiffEntriesBetweenCommits(mergeBase, previousSha),
+          getDiffEntriesBetweenCommits(mergeBase, headSha),
+        ]);
+        return { entries: [...replacing, ...rewritten], historyFallback: { kind: 'merge-base', mergeBase } };
+      }
+    }
+  } catch {
+    // Git could not compare the commits after all: re-check everything
+  }
+  const [repoFiles, untrackedFiles] = await Promise.all([getRepoFiles(), untracked ? [] : getUntrackedFiles()]);
+  const ignored = new Set(untrackedFiles);
+  const entries = repoFiles.filter((f) => !ignored.has(f)).map((path): DiffEntry => ({ status: 'modified', path }));
+  return { entries, historyFallback: { kind: 'full' } };
+}
+
+/** Changes on HEAD's side since it forked from ref, with a hint on the usual CI pitfalls */
+async function findChangesSince(ref: string): Promise<DiffEntry[]> {
+  try {
+    return await getDiffEntriesSince(ref);
+  } catch (err) {
+    throw new Error(
+      `Could not compare HEAD with "${ref}" (unknown ref, or a shallow clone missing the history of both): ${(err as Error).message.trim()}`,
+    );
+  }
+}
+
+/** Files of the previous snapshot git no longer reports that are still there, committed at HEAD or on disk:
+ *  they were reverted. The others, like an untracked file removed since, were deleted. */
+async function findRevertedFiles(
+  gitRoot: string,
+  headSha: string,
+  previousHashes: Record<string, string>,
+  candidates: string[],
+): Promise<string[]> {
+  const listed = new Set(candidates);
+  const unlisted = Object.keys(previousHashes).filter((path) => !listed.has(path));
+  if (unlisted.length === 0) {
+    return [];
+  }
+  const committed = await getTreeBlobs(gitRoot, headSha);
+  const present = await Promise.all(unlisted.map((path) =>
+    path in committed || lstat(join(gitRoot, path)).then(() => true, () => false)));
+  return unlisted.filter((_, i) => present[i]);
+}
+
+/** Detect the files of a watcher that changed since its last successful run, without writing anything.
+ *  With `since`, the files changed since HEAD forked from that ref are candidates too. With `staged`, only
+ *  staged files are, hashed as they are in the index. */
+async function detectChanges(
+  target: WatcherTarget,
+  { since, staged = false }: Pick<RunOptions, 'since' | 'staged'> = {},
+): Promise<ChangeDetection> {
+  const { key, patterns, stateFile, legacyKey } = target;
+  const untracked = target.untracked && !staged;
 
   const gitRoot = await getGitRoot();
   const headSha = await getHeadSha();
   const statePath = join(gitRoot, stateFile);
 
-  // Get files in git diff (unstaged + staged)
-  const diffFiles = await getDiffFiles();
+  // Get files in git diff (unstaged + staged), plus brand-new files that were never `git add`ed
+  const [trackedDiffEntries, untrackedFiles, sinceEntries] = await Promise.all([
+    staged ? getStagedEntries() : getDiffEntries(),
+    untracked ? getUntrackedFiles() : [],
+    since !== undefined ? findChangesSince(since) : [],
+  ]);
+  const diffFiles = [...new Set([...trackedDiffEntries.map((entry) => entry.path), ...untrackedFiles])];
+  const sinceFiles = sinceEntries.map((entry) => entry.path);
+  let entries = [...trackedDiffEntries, ...sinceEntries];
 
-  // Filter diff files by glob pattern
-  const isMatch = picomatch(pattern);
-  let matchingFiles = diffFiles.filter((f) => isMatch(f));
+  // Filter diff files by glob patterns
+  const isMatch = createMatcher(patterns);
+  let matchingFiles = [...new Set([...diffFiles, ...sinceFiles])].filter((f) => isMatch(f));
 
-  // Load previous state
-  const previousState = loadState(statePath, pattern);
+  // Load previous state, falling back to entries keyed by pattern only
+  let previousState = loadState(statePath, key);
+  let migrateFrom: string | undefined;
+  if (!previousState && legacyKey !== undefined && key !== legacyKey) {
+    previousState = loadState(statePath, legacyKey);
+    if (previousState) {
+      migrateFrom = legacyKey;
+    }
+  }
 
   // If HEAD moved since last run, also include files changed between the two commits
+  let commitDiffFiles: string[] = [];
+  let historyFallback: HistoryFallback | undefined;
   if (previousState?.headSha && previousState.headSha !== headSha) {
-    const commitDiffFiles = await getDiffFilesBetweenCommits(previousState.headSha, headSha);
+    let commitEntries: DiffEntry[];
+    ({ entries: commitEntries, historyFallback } = await findCommittedFiles(previousState.headSha, headSha, untracked));
+    commitDiffFiles = [...new Set(commitEntries.map((entry) => entry.path))];
+    entries = [...entries, ...commitEntries];
     const newFiles = commitDiffFiles.filter((f) => isMatch(f) && !matchingFiles.includes(f));
     matchingFiles = [...matchingFiles, ...newFiles];
   }
 
   // Compute hashes for matching files
-  const currentHashes = await computeHashes(gitRoot, matchingFiles);
-  const currentState: PatternState = { headSha, divergedFileHashes: currentHashes };
+  const currentHashes = staged ? await computeIndexHashes(gitRoot, matchingFiles) : await computeHashes(gitRoot, matchingFiles);
+  const fingerprint = await target.fingerprint?.(gitRoot);
+  const commandFingerprints = await target.commandFingerprints?.(gitRoot);
+
+  // Detect changes between previous and current snapshots. When the gate itself changed, the previous
+  // successes do not vouch for anything anymore: every diverged matching file counts as changed.
+  // (State written before fingerprints were recorded is trusted as is.)
+  const fingerprintChanged = fingerprint !== undefined
+    && previousState?.fingerprint !== undefined
+    && previousState.fingerprint !== fingerprint;
+  const previousHashes = previousState?.divergedFileHashes ?? {};
+  const snapshotChanges = findChangedFiles(previousHashes, currentHashes);
+  const changedFiles = fingerprintChanged
+    ? [...new Set([...Object.keys(currentHashes), ...snapshotChanges])]
+    : snapshotChanges;
+  const changes = classifyChanges(previousHashes, currentHashes, {
+    reverted: await findRevertedFiles(gitRoot, headSha, previousHashes, matchingFiles),
+    entries,
+  });
+  const candidatesAtHead = new Set([...diffFiles, ...sinceFiles]);
+  const snapshotHashes = Object.fromEntries(Object.entries(currentHashes).filter(([path]) => candidatesAtHead.has(path)));
+
+  return {
+    gitRoot,
+    statePath,
+    headSha,
+    previousState,
+    migrateFrom,
+    diffFiles,
+    ...(staged ? { staged } : {}),
+    ...(since !== undefined ? { since: { ref: since, files: sinceFiles } } : {}),
+    commitDiffFiles,
+    historyFallback,
+    renames: renamesOf(entries),
+    matchingFiles,
+    currentHashes,
+    snapshotHashes,
+    fingerprint,
+    fingerprintChanged,
+    changedFiles,
+    changes,
+    commandFingerprints,
+  };
+}
+
+/** Path of the staged checkouts, completed with random characters */
+function stagedCheckoutPrefix(): string {
+  return join(tmpdir(), 'delta-gate-staged-');
+}
 
-  // Detect changes between previous and current snapshots
-  const changedFiles = findChangedFiles(previousState?.divergedFileHashes ?? {}, currentHashes);
+/** Check out the staged content of files to a temporary directory, removed once fn is done */
+async function withStagedCheckout<T>(gitRoot: string, files: string[], fn: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await mkdtemp(stagedCheckoutPrefix());
+  try {
+    await checkoutIndex(gitRoot, files, dir);
+    return await fn(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+/** State identity of a configured watcher */
+function toWatcherTarget(config: WatcherConfig): WatcherTarget {
+  const {
+    id,
+    on,
+    ignore,
+    exec: commands,
+    execTimeout = DEFAULT_EXEC_TIMEOUT,
+    stateFile = DEFAULT_STATE_FILE,
+    untracked = true,
+    inputs = [],
+  } = config;
+
+  const patterns = toPatternSet(on, ignore);
+  const pattern = patternKey(patterns);
+  const resolvedCommands = resolveCommands(commands);
+  let inputHashes: Promise<Record<string, string>> | undefined;
+  const hashInputs = (gitRoot: string) => (inputHashes ??= computeInputHashes(gitRoot, inputs));
+  return {
+    key: watcherStateKey(pattern, resolvedCommands, id),
+    pattern,
+    patterns,
+    stateFile,
+    untracked,
+    legacyKey: pattern,
+    fingerprint: async (gitRoot) => computeGateFingerprint(resolvedCommands, execTimeout, await hashInputs(gitRoot)),
+    commandFingerprints: async (gitRoot) =>
+      computeCommandFingerprints(resolvedCommands, execTimeout, await hashInputs(gitRoot)),
+  };
+}
+
+/** Run a single watcher: detect changes for a glob pattern and execute commands if needed.
+ *  `hookContext` is the Claude Code hook payload, when run from a hook. */
+export async function runWatcher(
+  config: WatcherConfig,
+  hookContext?: HookContext,
+  options: RunOptions = {},
+): Promise<WatcherResult> {
+  const {
+    exec: commands,
+    execTimeout = DEFAULT_EXEC_TIMEOUT,
+    filesSeparator = DEFAULT_FILES_SEPARATOR,
+  } = config;
+
+  const target = toWatcherTarget(config);
+  const { key, pattern, patterns } = target;
+  const detection = await detectChanges(target, options);
+  const {
+    gitRoot,
+    statePath,
+    headSha,
+    previousState,
+    migrateFrom,
+    matchingFiles,
+    currentHashes,
+    fingerprint,
+    fingerprintChanged,
+    changedFiles,
+    historyFallback,
+  } = detection;
+  const triggered = changedFiles.length > 0 || fingerprintChanged;
+  const reason = fingerprintChanged
+    ? `commands or inputs changed for "${pattern}"`
+    : `${changedFiles.length} file(s) changed matching "${pattern}"`;
+
+  if (historyFallback && previousState) {
+    process.stderr.write(`delta-gate: "${pattern}": ${describeHistoryFallback(previousState.headSha, historyFallback)}\n`);
+  }
+  const identity = { id: key, pattern, ...(historyFallback ? { historyFallback } : {}) };
+
+  // The same gate may already have passed on exactly these files, on another branch or before a revert
+  const cacheDir = triggered && fingerprint !== undefined ? await resolveCacheDir(options, gitRoot) : undefined;
+  const lookup = cacheDir !== undefined ? await cacheLookup(detection, patterns, fingerprint!) : undefined;
+  const cached = lookup !== undefined ? await readCacheEntry(cacheDir!, lookup, !options.dryRun) : null;
+
+  if (options.explain) {
+    const decision = cached
+      ? `skip: ${reason}, but these files already passed on ${cached.passedAt} (result cache)`
+      : triggered
+        ? `run: ${reason}${previousState ? '' : ' (first run)'}`
+        : `skip: no matching file changed since the last success${previousState ? '' : ` (first run${options.dryRun ? '' : ', baseline state saved'})`}`;
+    process.stderr.write(formatExplanation(target, detection, decision));
+  }
+
+  const changes = commandChanges(detection);
+  const templateVars = {
+    GIT_PROJECT_ROOT: gitRoot,
+    ON_CHANGES_RUN_DIFF_FILES: matchingFiles.join(filesSeparator),
+    ON_CHANGES_RUN_CHANGED_FILES: changedFiles.join(filesSeparator),
+    ON_CHANGES_RUN_ADDED_FILES: changes.added.join(filesSeparator),
+    ON_CHANGES_RUN_MODIFIED_FILES: changes.modified.join(filesSeparator),
+    ON_CHANGES_RUN_DELETED_FILES: changes.deleted.join(filesSeparator),
+    // Same order: the nth renamed file used to be the nth previous path
+    ON_CHANGES_RUN_RENAMED_FILES: changes.renamed.map(({ to }) => to).join(filesSeparator),
+    ON_CHANGES_RUN_RENAMED_FROM_FILES: changes.renamed.map(({ from }) => from).join(filesSeparator),
+  };
+  const renamedFiles = changes.renamed.length > 0 ? { renamedFiles: changes.renamed } : {};
+
+  // Commands that already passed on exactly these files, during a run where others failed, do not run again
+  const resolvedCommands = resolveCommands(commands);
+  const upToDate = new Set(
+    resolvedCommands
+      .filter((cmd) => {
+        const commandFingerprint = detection.commandFingerprints?.[cmd.name];
+        const snapshot = commandFingerprint !== undefined ? previousState?.commandSnapshots?.[commandFingerprint] : undefined;
+        return isUpToDate(snapshot, headSha, detection.snapshotHashes);
+      })
+      .map((cmd) => cmd.name),
+  );
+
+  // Full detection, but nothing executed nor written
+  if (options.dryRun) {
+    if (cached) {
+      process.stderr.write(`delta-gate: [dry run] ${reason}, but these files already passed (result cache), would not run any command\n`);
+    } else if (triggered) {
+      process.stderr.write(`delta-gate: [dry run] ${reason}, would run ${commands.length - upToDate.size} command(s):\n`);
+      // Nothing is checked out: show where the staged content would be
+      const vars = options.staged ? { ...templateVars, STAGED_CHECKOUT_DIR: `${stagedCheckoutPrefix()}XXXXXX` } : templateVars;
+      process.stderr.write(formatDryRunCommands(resolvedCommands, vars, upToDate));
+    }
+    return { ...identity, changedFiles, ...renamedFiles, executed: false, success: true, failures: [], commands: [] };
+  }
 
-  if (changedFiles.length === 0) {
+  if (migrateFrom !== undefined) {
+    await migrateState(statePath, migrateFrom, key);
+  }
+  const currentState: PatternState = { headSha, divergedFileHashes: detection.snapshotHashes, fingerprint, patterns };
+
+  if (!triggered) {
     // Initialize state for new patterns even when no changes detected
     if (!previousState) {
-      await saveState(statePath, pattern, { ...currentState, lastSuccessAt: new Date().toISOString() });
+      const commandSnapshots = updateCommandSnapshots(detection, () => true);
+      await saveState(statePath, key, { ...currentState, commandSnapshots, lastSuccessAt: new Date().toISOString() });
     }
-    return { pattern, changedFiles: [], executed: false, success: true, failures: [] };
+    return { ...identity, changedFiles: [], executed: false, success: true, failures: [], commands: [] };
   }
 
+  const trigger = hookContext?.hookEventName ? ` (${hookContext.hookEventName} hook)` : '';
+  if (cached) {
+    process.stderr.write(
+      `delta-gate: ${reason}, but these files already passed on ${cached.passedAt} (result cache), not running the commands${trigger}\n`,
+    );
+    const commandSnapshots = updateCommandSnapshots(detection, () => true);
+    await saveState(statePath, key, { ...currentState, commandSnapshots, lastSuccessAt: new Date().toISOString() });
+    return { ...identity, changedFiles, ...renamedFiles, executed: false, success: true, failures: [], commands: [], cached: true };
+  }
+
+  const alreadyPassed = upToDate.size > 0 ? `, ${upToDate.size} already passed on these files` : '';
   process.stderr.write(
-    `delta-gate: ${changedFiles.length} file(s) changed matching "${pattern}", running ${commands.length} command(s)\n`,
+    `delta-gate: ${reason}, running ${commands.length - upToDate.size} command(s)${alreadyPassed}${trigger}\n`,
   );
 
-  // Run all commands in parallel
+  // Run commands in parallel, following their `needs` dependencies
   const timeoutMs = execTimeout * 1000;
-  const templateVars = {
-    GIT_PROJECT_ROOT: gitRoot,
-    ON_CHANGES_RUN_DIFF_FILES: matchingFiles.join(filesSeparator),
-    ON_CHANGES_RUN_CHANGED_FILES: changedFiles.join(filesSeparator),
-  };
-  const results = await executeAll(commands, timeoutMs, templateVars, gitRoot);
+  const startedAt = Date.now();
+  const run = (vars: Record<string, string>) => executeAll(commands, timeoutMs, vars, gitRoot, {
+    failFast: options.failFast,
+    limiter: options.limiter ?? createLimiter(options.maxParallel),
+    upToDate,
+  });
+  const results = options.staged
+    ? await withStagedCheckout(gitRoot, Object.keys(currentHashes), (dir) => run({ ...templateVars, STAGED_CHECKOUT_DIR: dir }))
+    : await run(templateVars);
+  const durationMs = Date.now() - startedAt;
+  for (const flaky of results.filter((r) => r.flaky)) {
+    process.stderr.write(`delta-gate: "${flaky.name ?? flaky.command}" passed after ${flaky.attempts!.length} attempts (flaky)\n`);
+  }
   const failures = results.filter((r) => r.exitCode !== 0);
+  const ran = { ...identity, changedFiles, ...renamedFiles, executed: true, commands: results, durationMs };
+  const passed = new Set(
+    resolvedCommands.filter((_, i) => results[i].exitCode === 0 && !results[i].upToDate).map((cmd) => cmd.name),
+  );
+  const commandSnapshots = updateCommandSnapshots(detection, (name) => passed.has(name));
 
   if (failures.length > 0) {
+    // Which commands get cancelled, and how much output they printed, depends on timing
+    const signature = failureSignature(failures.filter((f) => !f.cancelled));
+    // The commands that passed are not re-run until their files change, even though the watcher failed
+    await recordFailure(statePath, key, headSha, signature, commandSnapshots);
+
+    // Claude is already continuing because of a previous blocked Stop: blocking again on the
+    // exact same failures would loop forever, so let it stop this time
+    if (hookContext?.stopHookActive && previousState?.lastFailure?.signature === signature) {
+      process.stderr.write(
+        `delta-gate: same failures as the previous blocked stop for "${pattern}", not blocking again\n`,
+      );
+      return { ...ran, success: false, failures, repeatedFailure: true };
+    }
+
     printFailures(failures);
-    return { pattern, changedFiles, executed: true, success: false, failures };
+    return { ...ran, success: false, failures };
   }
 
-  // Save state only after all commands succeeded
-  await saveState(statePath, pattern, { ...currentState, lastSuccessAt: new Date().toISOString() });
-  return { pattern, changedFiles, executed: true, success: true, failures: [] };
+  // Save the watcher state only after all commands succeeded
+  const lastSuccessAt = new Date().toISOString();
+  await saveState(statePath, key, { ...currentState, commandSnapshots, lastSuccessAt });
+  if (lookup !== undefined) {
+    // The cache only saves time: failing to write it does not fail the gate
+    const entry = { id: key, passedAt: lastSuccessAt, ...lookup };
+    await writeCacheEntry(cacheDir!, entry).catch((err: Error) => {
+      process.stderr.write(`delta-gate: could not write the result cache: ${err.message}\n`);
+    });
+  }
+  return { ...ran, success: true, failures: [] };
 }
 
-/** Run multiple watchers in parallel, sharing a single stateFile. */
-export async function runWatchers(config: WatchersConfig): Promise<WatcherResult[]> {
+/** Run multiple watchers in parallel, sharing the config-level stateFile unless a watcher overrides it.
+ *  Their commands share a single `maxParallel` limit. */
+export async function runWatchers(
+  config: WatchersConfig,
+  hookContext?: HookContext,
+  options: RunOptions = {},
+): Promise<WatcherResult[]> {
+  const limiter = options.limiter ?? createLimiter(options.maxParallel);
   return Promise.all(
-    config.watchers.map((watcher) => runWatcher({ ...watcher, stateFile: config.stateFile })),
+    config.watchers.map((watcher) =>
+      runWatcher({ ...watcher, stateFile: watcher.stateFile ?? config.stateFile }, hookContext, { ...options, limiter }),
+    ),
   );
 }
+
+/** Watchers declared in a config, sharing the config-level stateFile like `runWatchers` */
+export function configWatcherTargets(config: WatchersConfig): WatcherTarget[] {
+  return config.watchers.map((watcher) =>
+    toWatcherTarget({ ...watcher, stateFile: watcher.stateFile ?? config.stateFile }));
+}
+
+/** Globs of a state entry written before patterns were stored: its key is the pattern identity,
+ *  optionally followed by `#<commands hash>` */
+function patternSetFromKey(key: string): PatternSet {
+  const pattern = key.replace(/#[0-9a-f]{12}$/, '');
+  if (pattern.startsWith('[')) {
+    try {
+      return toPatternSet(JSON.parse(pattern) as string[]);
+    } catch {
+      // Not a pattern list after all, use the key as a glob
+    }
+  }
+  return toPatternSet(pattern);
+}
+
+/** Watchers recorded in a state file, for when no config declares them.
+ *  Their commands are unknown, so changes to the gate itself cannot be detected. */
+export async function stateFileWatcherTargets(
+  stateFile: string = DEFAULT_STATE_FILE,
+  untracked = true,
+): Promise<WatcherTarget[]> {
+  const entries = Object.entries(readStateFile(join(await getGitRoot(), stateFile)));
+  return entries.map(([key, state]) => {
+    const patterns = state.patterns ?? patternSetFromKey(key);
+    return { key, pattern: patternKey(patterns), patterns, stateFile, untracked };
+  });
+}
+
+function toWatcherStatus(target: WatcherTarget, detection: ChangeDetection): WatcherStatus {
+  const { previousState, fingerprintChanged, changedFiles, changes } = detection;
+  return {
+    id: target.key,
+    pattern: target.pattern,
+    pending: changedFiles.length > 0 || fingerprintChanged,
+    ...changes,
+    gateChanged: fingerprintChanged,
+    headSha: previousState?.headSha ?? null,
+    lastSuccessAt: previousState?.lastSuccessAt ?? null,
+  };
+}
+
+/** Report what `runWatcher` would do for a watcher, without executing commands nor writing state */
+export async function getWatcherStatus(target: WatcherTarget): Promise<WatcherStatus> {
+  return toWatcherStatus(target, await detectChanges(target));
+}
+
+/** Record the current diverged files of a watcher as a success without running its commands.
+ *  Returns the status it had before. Watchers known from the state file only keep their fingerprint. */
+export async function acceptWatcher(target: WatcherTarget): Promise<WatcherStatus> {
+  const detection = await detectChanges(target);
+  const { statePath, headSha, previousState, migrateFrom, snapshotHashes } = detection;
+  if (migrateFrom !== undefined) {
+    await migrateState(statePath, migrateFrom, target.key);
+  }
+  await saveState(statePath, target.key, {
+    headSha,
+    divergedFileHashes: snapshotHashes,
+    fingerprint: detection.fingerprint ?? previousState?.fingerprint,
+    patterns: target.patterns,
+    commandSnapshots: updateCommandSnapshots(detection, () => true),
+    lastSuccessAt: new Date().toISOString(),
+  });
+  return toWatcherStatus(target, detection);
+}
+
+/** Identity helper giving type-checking to `delta-gate.config.{mjs,ts}` files */
+export function defineConfig(config: WatchersConfig): WatchersConfig {
+  return config;
+}
+
+export { loadConfig, findConfigFile } from './config.js';
+export { parseHookContext } from './hook.js';
+export { sequentialCommands } from './executor.js';
+export { createLimiter } from './limiter.js';
+export type { Limiter } from './limiter.js';
+export type { CacheEntry, CacheLookup } from './cache.js';
+export { formatJsonReport, formatJUnitReport, formatMarkdownReport, writeReports } from './reporters.js';
+export type { ReportFormat, ReportTarget } from './reporters.js';
+export type { PatternSet } from './patterns.js';
+export type {
+  CommandConfig,
+  CommandResult,
+  CommandSnapshot,
+  CommandSpec,
+  FileChanges,
+  HistoryFallback,
+  HookContext,
+  RenamedFile,
+} from './types.js';
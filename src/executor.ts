@@ -1,61 +1,387 @@
-import { exec } from 'node:child_process';
-import { promisify } from 'node:util';
-import type { CommandResult } from './types.js';
+import { spawn } from 'node:child_process';
+import type { ChildProcess } from 'node:child_process';
+import { constants } from 'node:os';
+import { resolve } from 'node:path';
+import type { CommandAttempt, CommandConfig, CommandResult } from './types.js';
+import { createLimiter } from './limiter.js';
+import type { Limiter } from './limiter.js';
 
-const execAsync = promisify(exec);
+/** Time left to a command to exit after SIGTERM, before it gets SIGKILLed */
+export const KILL_GRACE_MS = 5000;
+
+/** Output kept per stream and command, the rest is dropped */
+const MAX_OUTPUT_BYTES = 10 * 1024 * 1024;
+
+/** Terminates a running command; resolves once it exited */
+type Terminate = () => Promise<void>;
+
+/** Commands currently running, so that they can be terminated when delta-gate itself is interrupted */
+const runningCommands = new Set<Terminate>();
 
 /** Replace {{VAR}} placeholders in a command string with values from vars */
 export function interpolateTemplate(command: string, vars: Record<string, string>): string {
   return command.replace(/\{\{(\w+)\}\}/g, (match, key) => vars[key] ?? match);
 }
 
-/** Execute a single shell command after template interpolation */
-export async function executeCommand(
+/** Send a signal to the process group of a command: its shell and everything the shell started */
+function signalProcessGroup(child: ChildProcess, signal: NodeJS.Signals): void {
+  try {
+    // A negative pid targets the whole group; Windows has no process groups
+    if (process.platform !== 'win32' && child.pid !== undefined) {
+      process.kill(-child.pid, signal);
+    } else {
+      child.kill(signal);
+    }
+  } catch {
+    // Already exited
+  }
+}
+
+/** Accumulate a child output stream, up to MAX_OUTPUT_BYTES */
+function collectOutput(stream: NodeJS.ReadableStream | null): () => string {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let truncated = false;
+  stream?.on('data', (chunk: Buffer) => {
+    if (size + chunk.length > MAX_OUTPUT_BYTES) {
+      chunks.push(chunk.subarray(0, MAX_OUTPUT_BYTES - size));
+      size = MAX_OUTPUT_BYTES;
+      truncated = true;
+      return;
+    }
+    chunks.push(chunk);
+    size += chunk.length;
+  });
+  return () => Buffer.concat(chunks).toString('utf-8') + (truncated ? '\n[output truncated]\n' : '');
+}
+
+/** Execute a single shell command after template interpolation.
+ *  The command runs in its own process group, which is killed as a whole on timeout or when `options.signal` aborts. */
+export function executeCommand(
   command: string,
   timeoutMs: number,
   templateVars: Record<string, string> = {},
   cwd?: string,
+  options: ExecuteOptions = {},
 ): Promise<CommandResult> {
   const interpolatedCommand = interpolateTemplate(command, templateVars);
-  try {
-    const { stdout, stderr } = await execAsync(interpolatedCommand, {
-      maxBuffer: 10 * 1024 * 1024,
-      timeout: timeoutMs,
+  const startedAt = Date.now();
+  if (options.signal?.aborted) {
+    return Promise.resolve({ command, exitCode: null, stdout: '', stderr: '', cancelled: true, durationMs: 0 });
+  }
+
+  return new Promise<CommandResult>((resolvePromise) => {
+    const child = spawn(interpolatedCommand, {
+      shell: options.shell ?? true,
+      detached: process.platform !== 'win32',
+      stdio: ['ignore', 'pipe', 'pipe'],
       ...(cwd ? { cwd } : {}),
+      ...(options.env ? { env: { ...process.env, ...options.env } } : {}),
     });
-    return { command, exitCode: 0, stdout, stderr };
-  } catch (error: unknown) {
-    const err = error as { code?: number; stdout?: string; stderr?: string };
+    const stdout = collectOutput(child.stdout);
+    const stderr = collectOutput(child.stderr);
+
+    let exited!: () => void;
+    const exit = new Promise<void>((r) => (exited = r));
+    let terminating: Promise<void> | undefined;
+    // SIGTERM first so that tools can clean up, SIGKILL whatever is left after the grace period
+    const terminate: Terminate = () => {
+      terminating ??= (async () => {
+        signalProcessGroup(child, 'SIGTERM');
+        const killTimer = setTimeout(() => signalProcessGroup(child, 'SIGKILL'), KILL_GRACE_MS);
+        await exit;
+        clearTimeout(killTimer);
+      })();
+      return terminating;
+    };
+    runningCommands.add(terminate);
+
+    // Why the command was terminated, when it was
+    let stopped: { timedOut: true } | { cancelled: true } | undefined;
+    const stop = (reason: { timedOut: true } | { cancelled: true }) => {
+      stopped ??= reason;
+      void terminate();
+    };
+    const timeoutTimer = setTimeout(() => stop({ timedOut: true }), timeoutMs);
+    const cancel = () => stop({ cancelled: true });
+    options.signal?.addEventListener('abort', cancel, { once: true });
+
+    let settled = false;
+    const finish = (result: Omit<CommandResult, 'command' | 'durationMs'>) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeoutTimer);
+      options.signal?.removeEventListener('abort', cancel);
+      runningCommands.delete(terminate);
+      exited();
+      resolvePromise({ command, ...result, durationMs: Date.now() - startedAt });
+    };
+
+    // The command could not be started at all (missing shell or cwd...)
+    child.on('error', (err) => finish({ exitCode: 2, stdout: stdout(), stderr: stderr() + err.message }));
+    child.on('close', (code, signal) => {
+      if (stopped) {
+        finish({ exitCode: null, stdout: stdout(), stderr: stderr(), ...stopped });
+        return;
+      }
+      // Killed by a signal: report it the way shells do
+      const exitCode = code ?? 128 + (signal ? constants.signals[signal] ?? 0 : 0);
+      finish({ exitCode, stdout: stdout(), stderr: stderr() });
+    });
+  });
+}
+
+/** Terminate every running command (SIGTERM, then SIGKILL after KILL_GRACE_MS) and wait for them to exit */
+export async function terminateRunningCommands(): Promise<void> {
+  await Promise.all([...runningCommands].map((terminate) => terminate()));
+}
+
+/** A command declaration with its defaults applied */
+export interface ResolvedCommand {
+  run: string;
+  name: string;
+  needs: string[];
+  cwd?: string;
+  timeout?: number;
+  env?: Record<string, string>;
+  shell?: string;
+  exclusive?: boolean;
+  retries?: number;
+  retryDelay?: number;
+  retryOn?: number[];
+}
+
+/** How to run a command, besides its working directory and timeout */
+export interface ExecuteOptions {
+  env?: Record<string, string>;
+  shell?: string;
+  /** Cancels the command: it is killed if running, not started otherwise */
+  signal?: AbortSignal;
+}
+
+/** Apply defaults to command declarations: plain strings and unnamed commands are named after their command line.
+ *  Unset options are left out, so that they do not change the watcher's state key nor fingerprint. */
+export function resolveCommands(commands: CommandConfig[]): ResolvedCommand[] {
+  return commands.map((cmd) => {
+    if (typeof cmd === 'string') {
+      return { run: cmd, name: cmd, needs: [] };
+    }
+    const { run, name = run, needs = [], cwd, timeout, env, shell, exclusive, retries, retryDelay, retryOn } = cmd;
     return {
-      command,
-      exitCode: err.code ?? 2,
-      stdout: err.stdout ?? '',
-      stderr: err.stderr ?? '',
+      run,
+      name,
+      needs,
+      ...(cwd !== undefined ? { cwd } : {}),
+      ...(timeout !== undefined ? { timeout } : {}),
+      ...(env !== undefined ? { env } : {}),
+      ...(shell !== undefined ? { shell } : {}),
+      ...(exclusive !== undefined ? { exclusive } : {}),
+      ...(retries !== undefined ? { retries } : {}),
+      ...(retryDelay !== undefined ? { retryDelay } : {}),
+      ...(retryOn !== undefined ? { retryOn } : {}),
     };
+  });
+}
+
+/** Make every command need the previous one, so that they run one after the other */
+export function sequentialCommands(commands: CommandConfig[]): CommandConfig[] {
+  return resolveCommands(commands).map((cmd, i, all) =>
+    i === 0 ? cmd : { ...cmd, needs: [...cmd.needs, all[i - 1].name] },
+  );
+}
+
+/** Return the problems of a command graph: duplicate names, unknown `needs` and dependency cycles */
+export function findCommandGraphErrors(commands: ResolvedCommand[]): string[] {
+  const errors: string[] = [];
+  const byName = new Map<string, ResolvedCommand>();
+
+  for (const cmd of commands) {
+    if (byName.has(cmd.name)) {
+      errors.push(`duplicate command name "${cmd.name}"`);
+    }
+    byName.set(cmd.name, cmd);
+  }
+  for (const cmd of commands) {
+    for (const need of cmd.needs) {
+      if (!byName.has(need)) {
+        errors.push(`command "${cmd.name}" needs unknown command "${need}"`);
+      }
+    }
+  }
+
+  // Depth-first search, reporting each cycle once from the first command reaching it
+  const visited = new Set<string>();
+  const visit = (name: string, path: string[]): void => {
+    if (path.includes(name)) {
+      errors.push(`dependency cycle: ${[...path.slice(path.indexOf(name)), name].join(' -> ')}`);
+      return;
+    }
+    if (visited.has(name)) return;
+    visited.add(name);
+    for (const need of byName.get(name)?.needs ?? []) {
+      visit(need, [...path, name]);
+    }
+  };
+  for (const cmd of commands) {
+    visit(cmd.name, []);
+  }
+
+  return errors;
+}
+
+/** Resolve after ms, or as soon as signal aborts */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolvePromise) => {
+    if (signal.aborted) return resolvePromise();
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolvePromise();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener('abort', done, { once: true });
+  });
+}
+
+function shouldRetry(cmd: ResolvedCommand, result: CommandResult): boolean {
+  if (result.exitCode === 0 || result.cancelled) return false;
+  return cmd.retryOn === undefined || (result.exitCode !== null && cmd.retryOn.includes(result.exitCode));
+}
+
+function toAttempt({ exitCode, stdout, stderr, timedOut, durationMs }: CommandResult): CommandAttempt {
+  return { exitCode, stdout, stderr, ...(timedOut ? { timedOut } : {}), durationMs };
+}
+
+/** Run attempt() up to 1 + cmd.retries times, until it passes or fails in a way cmd.retryOn does not retry.
+ *  Waiting between attempts stops early when signal aborts. */
+async function runWithRetries(
+  cmd: ResolvedCommand,
+  attempt: () => Promise<CommandResult>,
+  signal: AbortSignal,
+): Promise<CommandResult> {
+  const startedAt = Date.now();
+  const attempts = [await attempt()];
+  while (attempts.length <= (cmd.retries ?? 0) && shouldRetry(cmd, attempts[attempts.length - 1])) {
+    await sleep((cmd.retryDelay ?? 0) * 1000, signal);
+    attempts.push(await attempt());
   }
+
+  const last = attempts[attempts.length - 1];
+  if (attempts.length === 1) return last;
+  return {
+    ...last,
+    durationMs: Date.now() - startedAt,
+    attempts: attempts.map(toAttempt),
+    ...(last.exitCode === 0 ? { flaky: true } : {}),
+  };
 }
 
-/** Execute multiple commands in parallel */
+/** Execute commands as a dependency graph: independent commands run in parallel, a command starts
+ *  once everything it needs succeeded, and is skipped if any of them did not. Results keep input order.
+ *  Failed commands are retried as their `retries` declare; with `failFast`, the first failure left after
+ *  retries cancels every other running or pending command.
+ *  Commands named in `upToDate` already passed on the current files: they are reported as passed without running.
+ *  Commands only take a slot of `limiter` once their needs succeeded; pass the same limiter to several
+ *  calls to share the concurrency limit. */
 export async function executeAll(
-  commands: string[],
+  commands: CommandConfig[],
   timeoutMs: number,
   templateVars: Record<string, string> = {},
   cwd?: string,
+  {
+    failFast = false,
+    limiter = createLimiter(),
+    upToDate = new Set<string>(),
+  }: { failFast?: boolean; limiter?: Limiter; upToDate?: Set<string> } = {},
 ): Promise<CommandResult[]> {
-  return Promise.all(commands.map((cmd) => executeCommand(cmd, timeoutMs, templateVars, cwd)));
+  const resolved = resolveCommands(commands);
+  const errors = findCommandGraphErrors(resolved);
+  if (errors.length > 0) {
+    throw new Error(`Invalid command graph: ${errors.join('; ')}`);
+  }
+
+  const byName = new Map(resolved.map((cmd) => [cmd.name, cmd]));
+  const running = new Map<string, Promise<CommandResult>>();
+  const cancellation = new AbortController();
+
+  const run = (cmd: ResolvedCommand): Promise<CommandResult> => {
+    let promise = running.get(cmd.name);
+    if (!promise) {
+      promise = (async () => {
+        const named = cmd.name !== cmd.run ? { name: cmd.name } : {};
+        if (cmd.needs.length > 0) {
+          const needed = await Promise.all(cmd.needs.map((need) => run(byName.get(need)!)));
+          if (needed.some((r) => r.exitCode !== 0 && !r.cancelled)) {
+            return { command: cmd.run, ...named, exitCode: null, stdout: '', stderr: '', skipped: true };
+          }
+        }
+        if (cancellation.signal.aborted) {
+          return { command: cmd.run, ...named, exitCode: null, stdout: '', stderr: '', cancelled: true };
+        }
+        if (upToDate.has(cmd.name)) {
+          return { command: cmd.run, ...named, exitCode: 0, stdout: '', stderr: '', upToDate: true };
+        }
+        const timeout = cmd.timeout ?? timeoutMs / 1000;
+        const commandCwd = cmd.cwd !== undefined ? resolve(cwd ?? '.', cmd.cwd) : cwd;
+        // The slot is released between attempts, for other commands to use it during the retry delay
+        const attempt = () => limiter.run(
+          () => executeCommand(cmd.run, timeout * 1000, templateVars, commandCwd, {
+            env: cmd.env,
+            shell: cmd.shell,
+            signal: cancellation.signal,
+          }),
+          cmd.exclusive,
+        );
+        const result = await runWithRetries(cmd, attempt, cancellation.signal);
+        if (failFast && result.exitCode !== 0 && !result.cancelled) {
+          cancellation.abort();
+        }
+        return {
+          ...result,
+          ...named,
+          timeout,
+          ...(cmd.cwd !== undefined ? { cwd: cmd.cwd } : {}),
+          ...(cmd.env !== undefined ? { env: cmd.env } : {}),
+        };
+      })();
+      running.set(cmd.name, promise);
+    }
+    return promise;
+  };
+
+  return Promise.all(resolved.map(run));
 }
 
-/** Print details of failed commands to stderr */
-export function printFailures(failures: CommandResult[]): void {
-  for (const f of failures) {
-    process.stderr.write(
-      `\n--- FAILED: ${f.command} (exit code ${f.exitCode}) ---\n`,
-    );
+/** Format details of failed commands (header, stdout and stderr of each one) */
+export function formatFailures(failures: CommandResult[]): string {
+  let text = '';
+  for (const f of failures.filter((failure) => !failure.cancelled)) {
+    if (f.skipped) {
+      text += `\n--- SKIPPED: ${f.command} (a command it needs did not succeed) ---\n`;
+      continue;
+    }
+    const details = [
+      f.timedOut ? (f.timeout !== undefined ? `killed after ${f.timeout}s` : '') : `exit code ${f.exitCode}`,
+      f.attempts ? `${f.attempts.length} attempts` : '',
+    ].filter((detail) => detail !== '');
+    const suffix = details.length > 0 ? ` (${details.join(', ')})` : '';
+    text += `\n--- ${f.timedOut ? 'TIMED OUT' : 'FAILED'}: ${f.command}${suffix} ---\n`;
     if (f.stdout) {
-      process.stderr.write(`[stdout]\n${f.stdout}\n`);
+      text += `[stdout]\n${f.stdout}\n`;
     }
     if (f.stderr) {
-      process.stderr.write(`[stderr]\n${f.stderr}\n`);
+      text += `[stderr]\n${f.stderr}\n`;
     }
   }
+  // Cancelled commands only stopped because of the failures above: their output is not worth showing
+  const cancelled = failures.filter((f) => f.cancelled);
+  if (cancelled.length > 0) {
+    text += `\n--- CANCELLED after the first failure (--fail-fast): ${cancelled.map((f) => f.command).join(', ')} ---\n`;
+  }
+  return text;
+}
+
+/** Print details of failed commands to stderr */
+export function printFailures(failures: CommandResult[]): void {
+  process.stderr.write(formatFailures(failures));
 }
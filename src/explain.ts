@@ -0,0 +1,118 @@
+import type { ChangeDetection, WatcherTarget } from './core.js';
+import type { ResolvedCommand } from './executor.js';
+import type { HistoryFallback } from './types.js';
+import { interpolateTemplate } from './executor.js';
+
+function shortSha(sha: string): string {
+  return sha.slice(0, 7);
+}
+
+function shortHash(hash: string | undefined): string {
+  return hash === undefined ? '(none)' : hash.slice(0, 12);
+}
+
+function matchLines(files: string[], matchingFiles: string[]): string[] {
+  if (files.length === 0) {
+    return ['    (none)'];
+  }
+  return files.map((file) => `    ${matchingFiles.includes(file) ? 'match   ' : 'no match'}  ${file}`);
+}
+
+/** Why the files committed since the previous run were not found by diffing the two HEADs, and how they were */
+export function describeHistoryFallback(previousSha: string, fallback: HistoryFallback): string {
+  return fallback.kind === 'merge-base'
+    ? `previous HEAD ${shortSha(previousSha)} is no longer an ancestor of HEAD (amend, rebase or reset), compared through their merge-base ${shortSha(fallback.mergeBase)}`
+    : `previous HEAD ${shortSha(previousSha)} cannot be compared with HEAD anymore (garbage-collected or unrelated history), re-checking every matching file`;
+}
+
+/** Step-by-step account of how a watcher reached its decision, for `--explain` */
+export function formatExplanation(target: WatcherTarget, detection: ChangeDetection, decision: string): string {
+  const { headSha, previousState, migrateFrom, diffFiles, commitDiffFiles, historyFallback, matchingFiles } = detection;
+  const lines = [`delta-gate: explain "${target.key}" (pattern ${target.pattern})`];
+
+  lines.push(detection.staged
+    ? '  files staged for commit (git diff --cached), hashed as staged:'
+    : '  files diverging from HEAD (git diff HEAD, git diff --cached, untracked):');
+  lines.push(...matchLines(diffFiles, matchingFiles));
+  if (detection.since) {
+    const { ref, files } = detection.since;
+    lines.push(`  files changed since HEAD forked from ${ref} (git diff ${ref}...HEAD):`);
+    lines.push(...matchLines(files, matchingFiles));
+  }
+  if (detection.renames.length > 0) {
+    lines.push('  renames detected by git:');
+    lines.push(...detection.renames.map(({ from, to }) => `    ${from} -> ${to}`));
+  }
+
+  if (!previousState) {
+    lines.push('  previous state: none (first run)');
+  } else {
+    const from = migrateFrom !== undefined ? ` (found under legacy key "${migrateFrom}")` : '';
+    lines.push(`  previous state: HEAD ${shortSha(previousState.headSha)}, last success ${previousState.lastSuccessAt ?? 'never'}${from}`);
+    if (historyFallback) {
+      lines.push(`  HEAD moved from ${shortSha(previousState.headSha)} to ${shortSha(headSha)}: ${describeHistoryFallback(previousState.headSha, historyFallback)}, files to re-check:`);
+      // Every file of the working tree: only list the matching ones
+      const matching = new Set(matchingFiles);
+      lines.push(...matchLines(historyFallback.kind === 'full' ? commitDiffFiles.filter((f) => matching.has(f)) : commitDiffFiles, matchingFiles));
+    } else if (previousState.headSha !== headSha) {
+      lines.push(`  HEAD moved from ${shortSha(previousState.headSha)} to ${shortSha(headSha)}, files changed by the commits in between:`);
+      lines.push(...matchLines(commitDiffFiles, matchingFiles));
+    } else {
+      lines.push(`  HEAD did not move (${shortSha(headSha)})`);
+    }
+  }
+
+  const previousHashes = previousState?.divergedFileHashes ?? {};
+  const { currentHashes, changes } = detection;
+  const files = [...new Set([...Object.keys(currentHashes), ...Object.keys(previousHashes)])];
+  // Labelled as the commands see them: a file no longer diverging from HEAD that is still there was reverted, not deleted
+  const labels = new Map<string, string>([
+    ...changes.added.map((file) => [file, 'new'] as const),
+    ...changes.modified.map((file) => [file, 'modified'] as const),
+    ...changes.deleted.map((file) => [file, 'deleted'] as const),
+    ...changes.renamed.flatMap(({ from, to }) => [[from, 'renamed'], [to, 'renamed']] as const),
+  ]);
+  lines.push('  matching file hashes (last success -> now):');
+  if (files.length === 0) {
+    lines.push('    (none)');
+  }
+  for (const file of files) {
+    const before = previousHashes[file];
+    const after = currentHashes[file];
+    const change = labels.get(file) ?? 'unchanged';
+    lines.push(`    ${change.padEnd(9)}  ${file}  ${shortHash(before)} -> ${shortHash(after)}`);
+  }
+
+  if (detection.fingerprint === undefined) {
+    lines.push('  gate fingerprint: not checked (commands unknown)');
+  } else if (previousState?.fingerprint === undefined) {
+    lines.push('  gate fingerprint: not recorded yet');
+  } else {
+    lines.push(`  gate fingerprint: ${detection.fingerprintChanged ? 'changed' : 'unchanged'} (${shortHash(previousState.fingerprint)} -> ${shortHash(detection.fingerprint)})`);
+  }
+
+  lines.push(`  decision: ${decision}`);
+  return lines.join('\n') + '\n';
+}
+
+/** Commands as they would run, template variables interpolated, for `--dry-run` */
+export function formatDryRunCommands(
+  commands: ResolvedCommand[],
+  templateVars: Record<string, string>,
+  upToDate: Set<string> = new Set(),
+): string {
+  return commands
+    .map((cmd) => {
+      const name = cmd.name !== cmd.run ? `[${cmd.name}] ` : '';
+      const details = [
+        ...(cmd.cwd !== undefined ? [`in ${cmd.cwd}`] : []),
+        ...(cmd.needs.length > 0 ? [`after ${cmd.needs.join(', ')}`] : []),
+        ...(cmd.exclusive ? ['exclusive'] : []),
+        ...(cmd.retries ? [`retried up to ${cmd.retries} time(s)`] : []),
+        ...(upToDate.has(cmd.name) ? ['already passed on these files, will not run'] : []),
+      ];
+      const suffix = details.length > 0 ? ` (${details.join(', ')})` : '';
+      return `  ${name}${interpolateTemplate(cmd.run, templateVars)}${suffix}\n`;
+    })
+    .join('');
+}
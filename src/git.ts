@@ -1,40 +1,185 @@
 import { execFile } from 'node:child_process';
+import { resolve } from 'node:path';
 import { promisify } from 'node:util';
+import type { DiffEntry } from './types.js';
 
 const execFileAsync = promisify(execFile);
 
+const DIFF_STATUSES: Record<string, DiffEntry['status']> = {
+  A: 'added',
+  M: 'modified',
+  D: 'deleted',
+};
+
+/** Parse `git diff --name-status -z` output: a status then a path, or a status then the previous and the new
+ *  path for renames and copies. A copy is a new file; other statuses (type changes, unmerged files) count as modified. */
+export function parseNameStatus(stdout: string): DiffEntry[] {
+  const fields = stdout.split('\0');
+  const entries: DiffEntry[] = [];
+  for (let i = 0; i + 1 < fields.length;) {
+    const letter = fields[i][0];
+    if (letter === 'R') {
+      entries.push({ status: 'renamed', from: fields[i + 1], path: fields[i + 2] });
+      i += 3;
+    } else if (letter === 'C') {
+      entries.push({ status: 'added', path: fields[i + 2] });
+      i += 3;
+    } else {
+      const status = DIFF_STATUSES[letter] ?? 'modified';
+      entries.push({ status, path: fields[i + 1] });
+      i += 2;
+    }
+  }
+  return entries;
+}
+
+/** `git diff` with rename detection, whatever the diff.renames setting */
+async function diffEntries(args: string[]): Promise<DiffEntry[]> {
+  const { stdout } = await execFileAsync('git', ['diff', '--name-status', '-M', '-z', ...args]);
+  return parseNameStatus(stdout);
+}
+
 /** Returns absolute path to git repository root */
 export async function getGitRoot(): Promise<string> {
   const { stdout } = await execFileAsync('git', ['rev-parse', '--show-toplevel']);
   return stdout.trim();
 }
 
+/** Returns absolute path to the git directory shared by every worktree of the repository */
+export async function getGitCommonDir(): Promise<string> {
+  const { stdout } = await execFileAsync('git', ['rev-parse', '--git-common-dir']);
+  // Relative to the current directory, unless git prints it absolute
+  return resolve(stdout.trim());
+}
+
+/** Directory git runs the hooks from: .git/hooks, or core.hooksPath when set */
+export async function getGitHooksDir(): Promise<string> {
+  const { stdout } = await execFileAsync('git', ['rev-parse', '--git-path', 'hooks']);
+  // Relative to the current directory, unless git prints it absolute
+  return resolve(stdout.trim());
+}
+
 /** Returns current HEAD commit SHA */
 export async function getHeadSha(): Promise<string> {
   const { stdout } = await execFileAsync('git', ['rev-parse', 'HEAD']);
   return stdout.trim();
 }
 
-/** Returns files that changed between two commits, relative to git root */
-export async function getDiffFilesBetweenCommits(fromSha: string, toSha: string): Promise<string[]> {
-  const { stdout } = await execFileAsync('git', ['diff', '--name-only', fromSha, toSha]).catch(() => ({ stdout: '' }));
-  return stdout.trim().split('\n').filter(Boolean);
+/** Returns the changes between two commits, relative to git root. Throws when a commit is unknown. */
+export async function getDiffEntriesBetweenCommits(fromSha: string, toSha: string): Promise<DiffEntry[]> {
+  return diffEntries([fromSha, toSha]);
+}
+
+/** Returns the changes on HEAD's side since it forked from ref (`git diff ref...HEAD`), relative to git root.
+ *  Throws when ref is unknown or shares no history with HEAD. */
+export async function getDiffEntriesSince(ref: string): Promise<DiffEntry[]> {
+  return diffEntries([`${ref}...HEAD`]);
+}
+
+/** Returns true when the commit exists in the repository (it may have been garbage-collected after a rebase) */
+export async function isCommitAvailable(sha: string): Promise<boolean> {
+  return execFileAsync('git', ['cat-file', '-e', `${sha}^{commit}`]).then(() => true, () => false);
+}
+
+/** Returns true when `ancestor` is reachable from `descendant` */
+export async function isAncestor(ancestor: string, descendant: string): Promise<boolean> {
+  try {
+    await execFileAsync('git', ['merge-base', '--is-ancestor', ancestor, descendant]);
+    return true;
+  } catch (err) {
+    // Exit code 1 means "not an ancestor", anything else is an actual error
+    if ((err as { code?: unknown }).code === 1) {
+      return false;
+    }
+    throw err;
+  }
+}
+
+/** Returns the best common ancestor of two commits, or null when they share no history */
+export async function getMergeBase(sha1: string, sha2: string): Promise<string | null> {
+  const { stdout } = await execFileAsync('git', ['merge-base', sha1, sha2]).catch(() => ({ stdout: '' }));
+  return stdout.trim() || null;
 }
 
-/** Returns deduplicated list of files in the git diff (unstaged + staged), relative to git root */
-export async function getDiffFiles(): Promise<string[]> {
+/** Returns the changes of the git diff (unstaged + staged), relative to git root, a file listed by both once.
+ *  A rename either diff reports wins: further edits can drop the working tree below the similarity threshold
+ *  of a rename the index still records (`git mv`), which then shows as a deleted and an added file. */
+export async function getDiffEntries(): Promise<DiffEntry[]> {
   const [unstaged, staged] = await Promise.all([
-    execFileAsync('git', ['diff', '--name-only', 'HEAD']).catch(() => ({ stdout: '' })),
-    execFileAsync('git', ['diff', '--cached', '--name-only']).catch(() => ({ stdout: '' })),
+    diffEntries(['HEAD']).catch(() => []),
+    diffEntries(['--cached']).catch(() => []),
   ]);
 
-  const files = new Set<string>();
-  for (const line of unstaged.stdout.trim().split('\n')) {
-    if (line) files.add(line);
+  const entries = new Map<string, DiffEntry>();
+  for (const entry of [...unstaged, ...staged]) {
+    const listed = entries.get(entry.path);
+    if (!listed || (entry.status === 'renamed' && listed.status !== 'renamed')) entries.set(entry.path, entry);
   }
-  for (const line of staged.stdout.trim().split('\n')) {
-    if (line) files.add(line);
+  const renamedFrom = new Set([...entries.values()].filter(({ status }) => status === 'renamed').map(({ from }) => from));
+
+  return [...entries.values()].filter(({ status, path }) => !(status === 'deleted' && renamedFrom.has(path)));
+}
+
+/** Returns the changes staged for the next commit (`git diff --cached`), relative to git root */
+export async function getStagedEntries(): Promise<DiffEntry[]> {
+  return diffEntries(['--cached']).catch(() => []);
+}
+
+/** Returns the blob SHA of each file of the index, relative to git root. Unmerged files are left out. */
+export async function getIndexBlobs(gitRoot: string): Promise<Record<string, string>> {
+  const { stdout } = await execFileAsync('git', ['ls-files', '--stage', '-z'], { cwd: gitRoot, maxBuffer: 64 * 1024 * 1024 });
+  const blobs: Record<string, string> = {};
+  for (const entry of stdout.split('\0')) {
+    // <mode> <sha> <stage>\t<path>
+    const match = /^\d+ ([0-9a-f]+) 0\t(.+)$/s.exec(entry);
+    if (match) {
+      blobs[match[2]] = match[1];
+    }
   }
+  return blobs;
+}
+
+/** Returns the blob SHA of each file committed in a commit, relative to git root */
+export async function getTreeBlobs(gitRoot: string, commit: string): Promise<Record<string, string>> {
+  const { stdout } = await execFileAsync('git', ['ls-tree', '-r', '--full-tree', '-z', commit], { cwd: gitRoot, maxBuffer: 64 * 1024 * 1024 });
+  const blobs: Record<string, string> = {};
+  for (const entry of stdout.split('\0')) {
+    // <mode> blob <sha>\t<path>
+    const match = /^\d+ blob ([0-9a-f]+)\t(.+)$/s.exec(entry);
+    if (match) {
+      blobs[match[2]] = match[1];
+    }
+  }
+  return blobs;
+}
+
+/** Returns the content of a blob */
+export async function readBlob(sha: string): Promise<Buffer> {
+  const { stdout } = await execFileAsync('git', ['cat-file', 'blob', sha], { encoding: 'buffer', maxBuffer: 256 * 1024 * 1024 });
+  return stdout;
+}
+
+/** Writes the index content of files (relative to git root) under dir, keeping their relative paths */
+export async function checkoutIndex(gitRoot: string, files: string[], dir: string): Promise<void> {
+  const checkout = execFileAsync('git', ['checkout-index', `--prefix=${dir}/`, '-z', '--stdin'], { cwd: gitRoot });
+  checkout.child?.stdin?.end(files.join('\0'));
+  await checkout;
+}
+
+/** Returns untracked files that are not ignored (.gitignore, .git/info/exclude...), relative to git root */
+export async function getUntrackedFiles(): Promise<string[]> {
+  // -z: paths as is, rather than quoted when they hold non-ASCII characters (core.quotePath)
+  const { stdout } = await execFileAsync('git', ['ls-files', '--others', '--exclude-standard', '--full-name', '-z', ':/'])
+    .catch(() => ({ stdout: '' }));
+  return stdout.split('\0').filter(Boolean);
+}
 
-  return [...files];
+/** Returns tracked and untracked non-ignored files of the working tree, relative to git root */
+export async function getRepoFiles(): Promise<string[]> {
+  const { stdout } = await execFileAsync(
+    'git',
+    ['ls-files', '--cached', '--others', '--exclude-standard', '--full-name', '-z', ':/'],
+    { maxBuffer: 64 * 1024 * 1024 },
+  );
+  return [...new Set(stdout.split('\0').filter(Boolean))];
 }
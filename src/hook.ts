@@ -0,0 +1,91 @@
+import type { HookContext } from './types.js';
+import type { WatcherResult } from './core.js';
+import { formatFailures } from './executor.js';
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/** Parse the Claude Code hook JSON payload; returns undefined when stdin was empty or not a hook payload */
+export function parseHookContext(raw: string): HookContext | undefined {
+  if (raw.trim() === '') {
+    return undefined;
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+    return undefined;
+  }
+
+  const p = payload as Record<string, unknown>;
+  const context: HookContext = {
+    hookEventName: optionalString(p.hook_event_name),
+    sessionId: optionalString(p.session_id),
+    cwd: optionalString(p.cwd),
+    transcriptPath: optionalString(p.transcript_path),
+    stopHookActive: typeof p.stop_hook_active === 'boolean' ? p.stop_hook_active : undefined,
+  };
+
+  // Drop absent fields so the context stays easy to log and compare
+  return Object.fromEntries(
+    Object.entries(context).filter(([, value]) => value !== undefined),
+  ) as HookContext;
+}
+
+/** JSON object understood by Claude Code on a hook's stdout (only read when the hook exits with 0) */
+export interface HookOutput {
+  decision?: 'block';
+  reason?: string;
+  systemMessage?: string;
+  suppressOutput?: boolean;
+  hookSpecificOutput?: {
+    hookEventName: string;
+    additionalContext: string;
+  };
+}
+
+/** Build the text shown to the model from the failed watchers */
+export function formatFailureReason(results: WatcherResult[]): string {
+  return results
+    .map((r) =>
+      `delta-gate: checks failed for files matching "${r.pattern}" (changed: ${r.changedFiles.join(', ')})\n`
+      + formatFailures(r.failures),
+    )
+    .join('\n');
+}
+
+/** Translate watcher results into the Claude Code hook JSON protocol:
+ *  `decision: "block"` for Stop/SubagentStop (and unknown events), `additionalContext` for PostToolUse. */
+export function formatHookOutput(results: WatcherResult[], hookContext?: HookContext): HookOutput {
+  const blocking = results.filter((r) => r.executed && !r.success && !r.repeatedFailure);
+  const repeated = results.filter((r) => r.repeatedFailure);
+
+  if (blocking.length === 0) {
+    if (repeated.length === 0) {
+      return { suppressOutput: true };
+    }
+    return {
+      suppressOutput: true,
+      systemMessage:
+        `delta-gate: checks still failing for ${repeated.map((r) => `"${r.pattern}"`).join(', ')}, `
+        + 'not blocking again to avoid a Stop loop',
+    };
+  }
+
+  const reason = formatFailureReason(blocking);
+  const failedCount = blocking.reduce((count, r) => count + r.failures.filter((f) => !f.skipped && !f.cancelled).length, 0);
+  const systemMessage = `delta-gate: ${failedCount} command(s) failed`;
+
+  if (hookContext?.hookEventName === 'PostToolUse') {
+    return {
+      systemMessage,
+      hookSpecificOutput: { hookEventName: 'PostToolUse', additionalContext: reason },
+    };
+  }
+  return { decision: 'block', reason, systemMessage };
+}
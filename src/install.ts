@@ -0,0 +1,259 @@
+import { readFileSync } from 'node:fs';
+import { chmod, mkdir, readFile, unlink, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { findConfigFile } from './config.js';
+import { getGitHooksDir, getGitRoot } from './git.js';
+
+export const INSTALL_TARGETS = ['claude', 'git-pre-commit', 'git-pre-push'] as const;
+
+export type InstallTarget = (typeof INSTALL_TARGETS)[number];
+
+/** Claude Code hook events delta-gate can be installed on */
+export const CLAUDE_HOOK_EVENTS = ['Stop', 'SubagentStop'] as const;
+
+export type ClaudeHookEvent = (typeof CLAUDE_HOOK_EVENTS)[number];
+
+export interface InstallOptions {
+  target: InstallTarget;
+  /** claude target: write .claude/settings.local.json (not committed) rather than .claude/settings.json */
+  local?: boolean;
+  /** claude target: hook event to run delta-gate on (default: Stop) */
+  event?: ClaudeHookEvent;
+  /** Arguments of the installed delta-gate command (default: none, running the watchers of the config file) */
+  args?: string[];
+}
+
+export interface InstallResult {
+  /** Settings file or git hook script written */
+  path: string;
+  /** False when the file already was as requested */
+  changed: boolean;
+}
+
+/** Ends the command of the hook entries written by `delta-gate install`, as a shell comment: JSON has none */
+const CLAUDE_HOOK_MARKER = '# delta-gate install';
+
+/** Delimit the lines written by `delta-gate install` in a git hook script */
+const GIT_HOOK_BLOCK_START = '# >>> delta-gate install >>>';
+const GIT_HOOK_BLOCK_END = '# <<< delta-gate install <<<';
+const GIT_HOOK_BLOCK = /# >>> delta-gate install >>>\n[\s\S]*?# <<< delta-gate install <<<\n?/;
+
+/** Interpreters the git hook block can be appended to */
+const SHELLS = ['sh', 'bash', 'zsh', 'dash', 'ksh'];
+
+interface ClaudeHookCommand {
+  type: string;
+  command?: string;
+  [key: string]: unknown;
+}
+
+interface ClaudeHookEntry {
+  matcher?: string;
+  hooks?: ClaudeHookCommand[];
+  [key: string]: unknown;
+}
+
+interface ClaudeSettings {
+  hooks?: Record<string, ClaudeHookEntry[]>;
+  [key: string]: unknown;
+}
+
+/** Version of this package, pinned in the installed command so that every hook run uses the same one */
+function packageVersion(): string {
+  const pkg = JSON.parse(readFileSync(new URL('../package.json', import.meta.url), 'utf-8')) as { version: string };
+  return pkg.version;
+}
+
+function shellQuote(arg: string): string {
+  return /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+/** The delta-gate command run by a hook: a pre-commit hook checks the staged content */
+export function installedCommand(target: InstallTarget, args: string[] = [], version = packageVersion()): string {
+  const targetArgs = target === 'git-pre-commit' && !args.includes('--staged') ? ['--staged'] : [];
+  return [`npx -y delta-gate@${version}`, ...[...targetArgs, ...args].map(shellQuote)].join(' ');
+}
+
+function isInstalledEntry(entry: ClaudeHookEntry): boolean {
+  return Array.isArray(entry.hooks)
+    && entry.hooks.some((hook) => typeof hook?.command === 'string' && hook.command.endsWith(CLAUDE_HOOK_MARKER));
+}
+
+/** Add the delta-gate entry to an event of Claude Code settings, replacing the one installed before if any.
+ *  Every other entry is kept as is. */
+export function addClaudeHook(settings: ClaudeSettings, event: ClaudeHookEvent, command: string): ClaudeSettings {
+  const installed: ClaudeHookEntry = { hooks: [{ type: 'command', command: `${command} ${CLAUDE_HOOK_MARKER}` }] };
+  const entries = settings.hooks?.[event] ?? [];
+  const index = entries.findIndex(isInstalledEntry);
+  const updated = index === -1
+    ? [...entries, installed]
+    : entries.flatMap((entry, i) => (i === index ? [installed] : isInstalledEntry(entry) ? [] : [entry]));
+  return { ...settings, hooks: { ...settings.hooks, [event]: updated } };
+}
+
+/** Remove the delta-gate entries of every event of Claude Code settings, dropping the events left empty */
+export function removeClaudeHooks(settings: ClaudeSettings): ClaudeSettings {
+  if (settings.hooks === undefined) {
+    return settings;
+  }
+  const hooks = Object.fromEntries(
+    Object.entries(settings.hooks)
+      .map(([event, entries]) => [event, entries.filter((entry) => !isInstalledEntry(entry))] as const)
+      .filter(([event, entries]) => entries.length > 0 || (settings.hooks![event] ?? []).length === 0),
+  );
+  const { hooks: _removed, ...rest } = settings;
+  return Object.keys(hooks).length > 0 ? { ...rest, hooks } : rest;
+}
+
+/** Add the delta-gate block to a git hook script, replacing the one installed before if any, or create the
+ *  script when there is none. The block goes at the end of an existing script. */
+export function addGitHookBlock(script: string | undefined, command: string): string {
+  // stdin is closed: a pre-push hook receives the pushed refs there, not a Claude Code payload
+  const block = `${GIT_HOOK_BLOCK_START}\n${command} </dev/null || exit $?\n${GIT_HOOK_BLOCK_END}\n`;
+  if (script === undefined) {
+    return `#!/bin/sh\n\n${block}`;
+  }
+  if (GIT_HOOK_BLOCK.test(script)) {
+    return script.replace(GIT_HOOK_BLOCK, block);
+  }
+  return `${script}${script.endsWith('\n') ? '' : '\n'}\n${block}`;
+}
+
+/** Remove the delta-gate block of a git hook script; undefined when nothing else is left in it */
+export function removeGitHookBlock(script: string): string | undefined {
+  const remaining = script.replace(GIT_HOOK_BLOCK, '').replace(/\n{3,}/g, '\n\n');
+  if (remaining.replace(/^#!.*/, '').trim() === '') {
+    return undefined;
+  }
+  return remaining.replace(/\n+$/, '\n');
+}
+
+async function readOptionalFile(path: string): Promise<string | undefined> {
+  try {
+    return await readFile(path, 'utf-8');
+  } catch (err: any) {
+    if (err.code === 'ENOENT') {
+      return undefined;
+    }
+    throw err;
+  }
+}
+
+async function claudeSettingsPath(local: boolean | undefined): Promise<string> {
+  return join(await getGitRoot(), '.claude', local ? 'settings.local.json' : 'settings.json');
+}
+
+async function readClaudeSettings(path: string): Promise<ClaudeSettings> {
+  const raw = await readOptionalFile(path);
+  if (raw === undefined) {
+    return {};
+  }
+
+  let settings: unknown;
+  try {
+    settings = JSON.parse(raw);
+  } catch (err) {
+    throw new Error(`Invalid JSON in Claude Code settings ${path}: ${(err as Error).message}`);
+  }
+  const isObject = (value: unknown) => typeof value === 'object' && value !== null && !Array.isArray(value);
+  if (!isObject(settings)) {
+    throw new Error(`Invalid Claude Code settings ${path}: expected a JSON object`);
+  }
+  const { hooks } = settings as ClaudeSettings;
+  if (hooks !== undefined && !isObject(hooks)) {
+    throw new Error(`Invalid Claude Code settings ${path}: "hooks" is not an object`);
+  }
+  for (const [event, entries] of Object.entries(hooks ?? {})) {
+    if (!Array.isArray(entries) || !entries.every(isObject)) {
+      throw new Error(`Invalid Claude Code settings ${path}: "hooks.${event}" is not an array of objects`);
+    }
+  }
+  return settings as ClaudeSettings;
+}
+
+async function writeClaudeSettings(path: string, before: ClaudeSettings, after: ClaudeSettings): Promise<InstallResult> {
+  const changed = JSON.stringify(before) !== JSON.stringify(after);
+  if (changed) {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, JSON.stringify(after, null, 2) + '\n');
+  }
+  return { path, changed };
+}
+
+async function gitHookPath(target: InstallTarget): Promise<string> {
+  return join(await getGitHooksDir(), target === 'git-pre-commit' ? 'pre-commit' : 'pre-push');
+}
+
+/** Refuse to append shell lines to a hook written in another language */
+function checkShellScript(path: string, script: string): void {
+  const shebang = /^#!\s*(\S+)(?:\s+(\S+))?/.exec(script);
+  if (!shebang) {
+    return;
+  }
+  const [, interpreter, arg] = shebang;
+  const name = interpreter.endsWith('/env') ? arg : interpreter.split('/').pop();
+  if (!SHELLS.includes(name ?? '')) {
+    throw new Error(`${path} is not a shell script (${shebang[0]}): add the delta-gate command to it by hand`);
+  }
+}
+
+function hasOption(args: string[], name: string): boolean {
+  return args.some((arg) => arg === name || arg.startsWith(`${name}=`));
+}
+
+/** Refuse to install a command that would fail on every hook run: without --on, delta-gate runs the watchers
+ *  of a config file, which must then exist */
+async function checkWatchersToRun(args: string[]): Promise<void> {
+  if (hasOption(args, '--on') || hasOption(args, '--config') || (await findConfigFile(await getGitRoot())) !== null) {
+    return;
+  }
+  throw new Error(
+    'the installed command would have no watcher to run: pass --on <glob> --exec <command> or --config <path> '
+    + 'after --, or add a delta-gate.config.{json,mjs,ts} file at the git root first',
+  );
+}
+
+/** `delta-gate install`: run delta-gate from Claude Code or from a git hook. Installing again updates the
+ *  command, keeping every other hook. */
+export async function install(options: InstallOptions): Promise<InstallResult> {
+  await checkWatchersToRun(options.args ?? []);
+  const command = installedCommand(options.target, options.args);
+
+  if (options.target === 'claude') {
+    const path = await claudeSettingsPath(options.local);
+    const settings = await readClaudeSettings(path);
+    return writeClaudeSettings(path, settings, addClaudeHook(settings, options.event ?? 'Stop', command));
+  }
+
+  const path = await gitHookPath(options.target);
+  const script = await readOptionalFile(path);
+  if (script !== undefined) {
+    checkShellScript(path, script);
+  }
+  const updated = addGitHookBlock(script, command);
+  if (updated !== script) {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, updated);
+  }
+  // git silently skips hooks that are not executable
+  await chmod(path, 0o755);
+  return { path, changed: updated !== script };
+}
+
+/** `delta-gate uninstall`: remove what `delta-gate install` added, keeping every other hook */
+export async function uninstall(options: Pick<InstallOptions, 'target' | 'local'>): Promise<InstallResult> {
+  if (options.target === 'claude') {
+    const path = await claudeSettingsPath(options.local);
+    const settings = await readClaudeSettings(path);
+    return writeClaudeSettings(path, settings, removeClaudeHooks(settings));
+  }
+
+  const path = await gitHookPath(options.target);
+  const script = await readOptionalFile(path);
+  if (script === undefined || !GIT_HOOK_BLOCK.test(script)) {
+    return { path, changed: false };
+  }
+  const remaining = removeGitHookBlock(script);
+  await (remaining === undefined ? unlink(path) : writeFile(path, remaining));
+  return { path, changed: true };
+}
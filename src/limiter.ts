@@ -0,0 +1,52 @@
+import { cpus } from 'node:os';
+
+/** Caps how many commands run at once, across every watcher of an invocation */
+export interface Limiter {
+  /** Run a task once a slot is free; an exclusive task waits for every other task to finish and runs alone */
+  run<T>(task: () => Promise<T>, exclusive?: boolean): Promise<T>;
+}
+
+/** Default concurrency: one command per CPU */
+export function defaultMaxParallel(): number {
+  return Math.max(1, cpus().length);
+}
+
+/** Create a limiter running at most maxParallel tasks at once. Tasks start in submission order,
+ *  so that an exclusive task is not starved by the tasks queued after it. */
+export function createLimiter(maxParallel: number = defaultMaxParallel()): Limiter {
+  const queue: { exclusive: boolean; start: () => void }[] = [];
+  let active = 0;
+  let exclusiveActive = false;
+
+  const canStart = (exclusive: boolean) =>
+    exclusive ? active === 0 : !exclusiveActive && active < maxParallel;
+
+  const drain = () => {
+    while (queue.length > 0 && canStart(queue[0].exclusive)) {
+      const next = queue.shift()!;
+      active++;
+      exclusiveActive = next.exclusive;
+      next.start();
+    }
+  };
+
+  return {
+    run<T>(task: () => Promise<T>, exclusive = false): Promise<T> {
+      return new Promise<T>((resolve, reject) => {
+        queue.push({
+          exclusive,
+          start: () => {
+            task()
+              .then(resolve, reject)
+              .finally(() => {
+                active--;
+                if (exclusive) exclusiveActive = false;
+                drain();
+              });
+          },
+        });
+        drain();
+      });
+    },
+  };
+}
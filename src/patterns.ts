@@ -0,0 +1,51 @@
+import picomatch from 'picomatch';
+
+/** Glob patterns selecting the files of a watcher */
+export interface PatternSet {
+  /** A file must match at least one of these */
+  include: string[];
+  /** ...and none of these */
+  exclude: string[];
+}
+
+function toArray(value: string | string[] | undefined): string[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/** Build a pattern set from `on` and `ignore` globs; `!`-prefixed `on` globs are excludes.
+ *  When only excludes are given, every file not excluded matches. */
+export function toPatternSet(on: string | string[], ignore?: string | string[]): PatternSet {
+  const include: string[] = [];
+  const exclude: string[] = [];
+
+  for (const glob of toArray(on)) {
+    if (glob.startsWith('!')) {
+      exclude.push(glob.slice(1));
+    } else {
+      include.push(glob);
+    }
+  }
+  for (const glob of toArray(ignore)) {
+    exclude.push(glob.startsWith('!') ? glob.slice(1) : glob);
+  }
+
+  return { include: include.length > 0 ? include : ['**'], exclude };
+}
+
+/** Returns a predicate telling whether a path (relative to git root) belongs to the pattern set */
+export function createMatcher(patterns: PatternSet): (file: string) => boolean {
+  return picomatch(patterns.include, patterns.exclude.length > 0 ? { ignore: patterns.exclude } : {});
+}
+
+/** Stable identity of a pattern set, independent of glob order and duplicates.
+ *  A single include glob without excludes is its own identity, as in state files written before pattern sets. */
+export function patternKey(patterns: PatternSet): string {
+  const include = [...new Set(patterns.include)].sort();
+  const exclude = [...new Set(patterns.exclude)].sort();
+
+  if (include.length === 1 && exclude.length === 0) {
+    return include[0];
+  }
+  return JSON.stringify([...include, ...exclude.map((glob) => `!${glob}`)]);
+}
@@ -0,0 +1,202 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import type { WatcherResult } from './core.js';
+import type { CommandAttempt, CommandResult } from './types.js';
+
+export const REPORT_FORMATS = ['json', 'junit', 'markdown'] as const;
+
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+/** A report to write: `--report <format>:<path>` */
+export interface ReportTarget {
+  format: ReportFormat;
+  path: string;
+}
+
+/** Parse a `<format>:<path>` report spec, returning null when it is malformed */
+export function parseReportTarget(spec: string): ReportTarget | null {
+  const separator = spec.indexOf(':');
+  const format = spec.slice(0, separator);
+  const path = spec.slice(separator + 1);
+  if (separator <= 0 || path === '' || !(REPORT_FORMATS as readonly string[]).includes(format)) {
+    return null;
+  }
+  return { format: format as ReportFormat, path };
+}
+
+function isBlocking(result: WatcherResult): boolean {
+  return result.executed && !result.success && !result.repeatedFailure;
+}
+
+function commandLabel(result: CommandResult): string {
+  return result.name ?? result.command;
+}
+
+function failureReason(attempt: CommandAttempt, timeout?: number): string {
+  if (!attempt.timedOut) return `exit code ${attempt.exitCode}`;
+  return timeout !== undefined ? `timed out after ${timeout}s` : 'timed out';
+}
+
+function flakyCommands(result: WatcherResult): CommandResult[] {
+  return result.commands.filter((c) => c.flaky);
+}
+
+function seconds(durationMs: number | undefined): string {
+  return ((durationMs ?? 0) / 1000).toFixed(3);
+}
+
+/** Full results, with timings, as JSON */
+export function formatJsonReport(results: WatcherResult[]): string {
+  return JSON.stringify({ success: !results.some(isBlocking), watchers: results }, null, 2) + '\n';
+}
+
+function escapeXml(text: string): string {
+  return text
+    // Control characters are not allowed in XML 1.0, even escaped
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function junitOutput({ stdout, stderr }: { stdout: string; stderr: string }): string {
+  return escapeXml(`[stdout]\n${stdout}\n[stderr]\n${stderr}`);
+}
+
+/** Failed attempts before the last one, as Surefire's flakyFailure (eventually passed) or rerunFailure elements */
+function junitRetries(result: CommandResult): string[] {
+  const element = result.flaky ? 'flakyFailure' : 'rerunFailure';
+  return (result.attempts ?? []).slice(0, -1).map((attempt) =>
+    `      <${element} message="${failureReason(attempt, result.timeout)}">${junitOutput(attempt)}</${element}>`);
+}
+
+function junitTestCase(suite: string, result: CommandResult): string {
+  const open = `    <testcase classname="${escapeXml(suite)}" name="${escapeXml(commandLabel(result))}" time="${seconds(result.durationMs)}"`;
+  if (result.skipped) {
+    return `${open}>\n      <skipped message="a command it needs did not succeed"/>\n    </testcase>`;
+  }
+  if (result.cancelled) {
+    return `${open}>\n      <skipped message="cancelled after another command failed"/>\n    </testcase>`;
+  }
+  if (result.upToDate) {
+    return `${open}>\n      <skipped message="already passed on these files"/>\n    </testcase>`;
+  }
+  if (result.exitCode !== 0) {
+    const failure = `      <failure message="${failureReason(result, result.timeout)}">${junitOutput(result)}</failure>`;
+    return [`${open}>`, failure, ...junitRetries(result), '    </testcase>'].join('\n');
+  }
+  if (result.flaky) {
+    return [`${open}>`, ...junitRetries(result), '    </testcase>'].join('\n');
+  }
+  return `${open}/>`;
+}
+
+/** One test suite per watcher, one test case per command */
+export function formatJUnitReport(results: WatcherResult[]): string {
+  const count = (commands: CommandResult[]) => ({
+    tests: commands.length,
+    failures: commands.filter((c) => !c.skipped && !c.cancelled && c.exitCode !== 0).length,
+    skipped: commands.filter((c) => c.skipped || c.cancelled || c.upToDate).length,
+  });
+  const all = results.flatMap((r) => r.commands);
+  const total = count(all);
+  const totalMs = results.reduce((sum, r) => sum + (r.durationMs ?? 0), 0);
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="delta-gate" tests="${total.tests}" failures="${total.failures}" skipped="${total.skipped}" time="${seconds(totalMs)}">`,
+  ];
+  for (const result of results) {
+    const { tests, failures, skipped } = count(result.commands);
+    const attributes = `name="${escapeXml(result.id)}" tests="${tests}" failures="${failures}" skipped="${skipped}" time="${seconds(result.durationMs)}"`;
+    if (result.commands.length === 0) {
+      lines.push(`  <testsuite ${attributes}/>`);
+      continue;
+    }
+    lines.push(`  <testsuite ${attributes}>`);
+    lines.push(...result.commands.map((command) => junitTestCase(result.id, command)));
+    lines.push('  </testsuite>');
+  }
+  lines.push('</testsuites>');
+  return lines.join('\n') + '\n';
+}
+
+function watcherOutcome(result: WatcherResult): string {
+  if (result.cached) return 'passed (cached)';
+  if (!result.executed) return 'no changes';
+  const flaky = flakyCommands(result).length;
+  if (result.success) return flaky > 0 ? `passed (${flaky} flaky)` : 'passed';
+  return result.repeatedFailure ? 'failed (same failures as the previous stop, not blocking)' : 'failed';
+}
+
+/** Wrap text in a code fence longer than any backtick run it contains */
+function codeBlock(text: string): string {
+  const longestRun = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  return `${fence}\n${text.trimEnd()}\n${fence}`;
+}
+
+/** Summary table plus the output of failed commands, for PR comments or CI step summaries */
+export function formatMarkdownReport(results: WatcherResult[]): string {
+  const lines = [
+    `## delta-gate: ${results.some(isBlocking) ? 'failed' : 'passed'}`,
+    '',
+    '| Watcher | Result | Changed files | Duration |',
+    '|---------|--------|---------------|----------|',
+    ...results.map((r) =>
+      `| \`${r.id.replace(/\|/g, '\\|')}\` | ${watcherOutcome(r)} | ${r.changedFiles.length} | ${r.durationMs !== undefined ? `${seconds(r.durationMs)}s` : '-'} |`),
+  ];
+
+  const flaky = results.flatMap((r) => flakyCommands(r).map((command) => ({ id: r.id, command })));
+  if (flaky.length > 0) {
+    lines.push('', '### Flaky commands', '');
+    for (const { id, command } of flaky) {
+      const failed = command.attempts!.slice(0, -1).map((attempt) => failureReason(attempt, command.timeout));
+      lines.push(`- \`${id}\` \`${commandLabel(command)}\`: passed on attempt ${command.attempts!.length} (${failed.join(', ')} before)`);
+    }
+  }
+
+  for (const result of results.filter((r) => r.failures.length > 0)) {
+    lines.push('', `### \`${result.id}\``);
+    for (const failure of result.failures) {
+      if (failure.skipped) {
+        lines.push('', `- \`${commandLabel(failure)}\`: skipped, a command it needs did not succeed`);
+        continue;
+      }
+      if (failure.cancelled) {
+        lines.push('', `- \`${commandLabel(failure)}\`: cancelled after another command failed`);
+        continue;
+      }
+      const output = [failure.stdout, failure.stderr].filter((text) => text.trim() !== '').join('\n');
+      lines.push(
+        '',
+        '<details>',
+        `<summary><code>${escapeXml(commandLabel(failure))}</code>: ${failureReason(failure, failure.timeout)}</summary>`,
+        '',
+        codeBlock(output || '(no output)'),
+        '',
+        '</details>',
+      );
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+const FORMATTERS: Record<ReportFormat, (results: WatcherResult[]) => string> = {
+  json: formatJsonReport,
+  junit: formatJUnitReport,
+  markdown: formatMarkdownReport,
+};
+
+/** Write each requested report; relative paths are resolved from cwd */
+export async function writeReports(results: WatcherResult[], targets: ReportTarget[]): Promise<void> {
+  await Promise.all(
+    targets.map(async ({ format, path }) => {
+      const absolutePath = resolve(path);
+      await mkdir(dirname(absolutePath), { recursive: true });
+      await writeFile(absolutePath, FORMATTERS[format](results));
+    }),
+  );
+}
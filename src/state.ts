@@ -2,7 +2,9 @@ import { createHash } from 'node:crypto';
 import { readFile, writeFile, mkdir, open, unlink } from 'node:fs/promises';
 import { readFileSync } from 'node:fs';
 import { join, dirname } from 'node:path';
-import type { PatternState, StateFile } from './types.js';
+import type { CommandSnapshot, DiffEntry, FileChanges, PatternState, RenamedFile, StateFile } from './types.js';
+import type { ResolvedCommand } from './executor.js';
+import { getIndexBlobs, readBlob } from './git.js';
 
 /** Acquire an exclusive file lock, run fn(), then release the lock.
  *  Retries on contention (EEXIST) with a short random back-off. */
@@ -38,6 +40,16 @@ async function withFileLock<T>(lockPath: string, fn: () => Promise<T>): Promise<
   throw new Error('Unexpected end of withFileLock loop');
 }
 
+/** State key of a watcher: its explicit id, or its pattern identity plus a short hash of its commands,
+ *  so that watchers sharing a glob but running different commands do not share state */
+export function watcherStateKey(pattern: string, commands: ResolvedCommand[], id?: string): string {
+  if (id !== undefined) {
+    return id;
+  }
+  const commandsHash = createHash('sha256').update(JSON.stringify(commands)).digest('hex').slice(0, 12);
+  return `${pattern}#${commandsHash}`;
+}
+
 /** Compute SHA-256 hash of a file's content on disk */
 export async function computeFileHash(absolutePath: string): Promise<string> {
   const content = await readFile(absolutePath);
@@ -64,22 +76,53 @@ export async function computeHashes(
   return Object.fromEntries(entries.filter((e): e is NonNullable<typeof e> => e !== null));
 }
 
-/** Load previous state for a given pattern from the state file */
-export function loadState(statePath: string, pattern: string): PatternState | null {
+/** Compute hashes of the staged content of files, as they will be committed, rather than of their working-tree
+ *  content. Hashes are comparable with computeHashes ones. Files missing from the index are left out. */
+export async function computeIndexHashes(
+  gitRoot: string,
+  relativePaths: string[],
+): Promise<Record<string, string>> {
+  const blobs = await getIndexBlobs(gitRoot);
+  const hashes: Record<string, string> = {};
+  // One git process per file: read them one after the other rather than all at once
+  for (const rel of relativePaths.filter((path) => blobs[path] !== undefined)) {
+    hashes[rel] = createHash('sha256').update(await readBlob(blobs[rel])).digest('hex');
+  }
+  return hashes;
+}
+
+/** Read the whole state file; a missing or unreadable file is an empty state */
+export function readStateFile(statePath: string): StateFile {
   try {
     const raw = readFileSync(statePath, 'utf-8');
-    const stateFile: StateFile = JSON.parse(raw);
-    return stateFile[pattern] ?? null;
+    return JSON.parse(raw);
   } catch {
-    return null;
+    return {};
   }
 }
 
-/** Save state for a given pattern to the state file (thread-safe via file lock) */
-export async function saveState(
+/** Read the whole state file under the file lock, so that a write in progress is never read half-written */
+export async function readStateFileLocked(statePath: string): Promise<StateFile> {
+  try {
+    return await withFileLock(`${statePath}.lock`, async () => readStateFile(statePath));
+  } catch (err: any) {
+    // No directory to take the lock in: no state file either
+    if (err.code === 'ENOENT') {
+      return {};
+    }
+    throw err;
+  }
+}
+
+/** Load previous state for a given pattern from the state file */
+export function loadState(statePath: string, pattern: string): PatternState | null {
+  return readStateFile(statePath)[pattern] ?? null;
+}
+
+/** Apply `update` to the state file content under an exclusive file lock, then write it back */
+async function updateStateFile(
   statePath: string,
-  pattern: string,
-  state: PatternState,
+  update: (stateFile: StateFile) => void,
 ): Promise<void> {
   const lockPath = `${statePath}.lock`;
 
@@ -96,11 +139,71 @@ export async function saveState(
       // File doesn't exist yet, start fresh
     }
 
-    stateFile[pattern] = state;
+    update(stateFile);
     await writeFile(statePath, JSON.stringify(stateFile, null, 2) + '\n');
   });
 }
 
+/** Save state for a given pattern to the state file (thread-safe via file lock) */
+export async function saveState(
+  statePath: string,
+  pattern: string,
+  state: PatternState,
+): Promise<void> {
+  await updateStateFile(statePath, (stateFile) => {
+    stateFile[pattern] = state;
+  });
+}
+
+/** Remove the entries for which `shouldRemove` returns true, deciding on the content read under the lock.
+ *  Returns the removed keys. */
+export async function removeStates(
+  statePath: string,
+  shouldRemove: (key: string, state: PatternState) => boolean,
+): Promise<string[]> {
+  const removed: string[] = [];
+  await updateStateFile(statePath, (stateFile) => {
+    for (const [key, state] of Object.entries(stateFile)) {
+      if (shouldRemove(key, state)) {
+        delete stateFile[key];
+        removed.push(key);
+      }
+    }
+  });
+  return removed;
+}
+
+/** Move the state stored under `fromKey` to `toKey`, unless `toKey` already has state.
+ *  Used to migrate entries keyed by glob pattern only (state files written before watcher ids). */
+export async function migrateState(statePath: string, fromKey: string, toKey: string): Promise<void> {
+  await updateStateFile(statePath, (stateFile) => {
+    if (stateFile[fromKey] && !stateFile[toKey]) {
+      stateFile[toKey] = stateFile[fromKey];
+      delete stateFile[fromKey];
+    }
+  });
+}
+
+/** Record a failure signature for a pattern without touching its last successful snapshot, along with the
+ *  snapshots of the commands that passed when given.
+ *  Patterns without state get an empty snapshot at headSha, so the next run still sees every file as changed. */
+export async function recordFailure(
+  statePath: string,
+  pattern: string,
+  headSha: string,
+  signature: string,
+  commandSnapshots?: Record<string, CommandSnapshot>,
+): Promise<void> {
+  await updateStateFile(statePath, (stateFile) => {
+    const state = stateFile[pattern] ?? { headSha, divergedFileHashes: {} };
+    stateFile[pattern] = {
+      ...state,
+      ...(commandSnapshots ? { commandSnapshots } : {}),
+      lastFailure: { signature, at: new Date().toISOString() },
+    };
+  });
+}
+
 /** Find files that changed between two snapshots */
 export function findChangedFiles(
   previous: Record<string, string>,
@@ -124,3 +227,44 @@ export function findChangedFiles(
 
   return changed;
 }
+
+/** Split the differences between two snapshots into added, modified, deleted and renamed files.
+ *  `reverted` are the files of the previous snapshot git no longer reports but that are still there: they count
+ *  as modified rather than deleted. The git diff `entries` tell a file that was clean at the last success from a
+ *  new one, and pair the two paths of a renamed file. */
+export function classifyChanges(
+  previous: Record<string, string>,
+  current: Record<string, string>,
+  { reverted = [], entries = [] }: { reverted?: string[]; entries?: DiffEntry[] } = {},
+): FileChanges {
+  // A file several diffs report keeps its first entry: the working tree's comes before the commits'
+  const entryOf = new Map<string, DiffEntry>();
+  for (const entry of entries) {
+    if (!entryOf.has(entry.path)) entryOf.set(entry.path, entry);
+  }
+  const stillThere = new Set(reverted);
+  const added: string[] = [];
+  const modified: string[] = [];
+  const deleted: string[] = [];
+  const renamed: RenamedFile[] = [];
+
+  for (const [path, hash] of Object.entries(current)) {
+    if (previous[path] === hash) {
+      continue;
+    }
+    const entry = entryOf.get(path);
+    if (entry?.status === 'renamed') {
+      renamed.push({ from: entry.from!, to: path });
+    } else if (path in previous || entry?.status === 'modified') {
+      modified.push(path);
+    } else {
+      added.push(path);
+    }
+  }
+  const renamedFrom = new Set(renamed.map(({ from }) => from));
+  for (const path of Object.keys(previous).filter((p) => !(p in current) && !renamedFrom.has(p))) {
+    (stillThere.has(path) ? modified : deleted).push(path);
+  }
+
+  return { added, modified, deleted, renamed };
+}
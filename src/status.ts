@@ -0,0 +1,38 @@
+import type { WatcherStatus } from './core.js';
+
+function formatRow(cells: string[], widths: number[]): string {
+  return cells.map((cell, i) => (i === cells.length - 1 ? cell : cell.padEnd(widths[i]))).join('  ').trimEnd();
+}
+
+/** Human-readable status: one table row per watcher, then the pending files of each pending watcher */
+export function formatStatus(statuses: WatcherStatus[]): string {
+  if (statuses.length === 0) {
+    return 'No watcher found: nothing recorded in the state file and no config file\n';
+  }
+
+  const header = ['WATCHER', 'STATUS', 'NEW', 'MODIFIED', 'DELETED', 'RENAMED', 'HEAD', 'LAST SUCCESS'];
+  const rows = statuses.map((s) => [
+    s.id,
+    s.pending ? 'pending' : 'clean',
+    String(s.added.length),
+    String(s.modified.length),
+    String(s.deleted.length),
+    String(s.renamed.length),
+    s.headSha?.slice(0, 7) ?? '-',
+    s.lastSuccessAt ?? 'never',
+  ]);
+  const widths = header.map((title, i) => Math.max(title.length, ...rows.map((row) => row[i].length)));
+  const lines = [header, ...rows].map((row) => formatRow(row, widths));
+
+  for (const s of statuses.filter((status) => status.pending)) {
+    lines.push('', s.gateChanged ? `${s.id} (commands or inputs changed):` : `${s.id}:`);
+    const renamed = s.renamed.map(({ from, to }) => `${from} -> ${to}`);
+    for (const [label, files] of [['new', s.added], ['modified', s.modified], ['deleted', s.deleted], ['renamed', renamed]] as const) {
+      for (const file of files) {
+        lines.push(`  ${label.padEnd(8)}  ${file}`);
+      }
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
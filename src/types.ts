@@ -1,4 +1,17 @@
-/** Per-glob-pattern persisted state */
+import type { PatternSet } from './patterns.js';
+import type { ReportTarget } from './reporters.js';
+
+/** Files a single command last passed on */
+export interface CommandSnapshot {
+  /** HEAD commit SHA when the command passed */
+  headSha: string;
+  /** Map of relative file path -> content hash, as in PatternState */
+  divergedFileHashes: Record<string, string>;
+  /** ISO-8601 timestamp of the command's success */
+  lastSuccessAt: string;
+}
+
+/** Per-watcher persisted state */
 export interface PatternState {
   /** HEAD commit SHA at time of last run */
   headSha: string;
@@ -6,26 +19,160 @@ export interface PatternState {
   divergedFileHashes: Record<string, string>;
   /** ISO-8601 timestamp of the last successful command execution (undefined on first/baseline run) */
   lastSuccessAt?: string;
+  /** Hash of the gate itself (commands, timeout, declared input files content) when the snapshot was taken */
+  fingerprint?: string;
+  /** Globs of the watcher, so `delta-gate status` can check the entry without its config */
+  patterns?: PatternSet;
+  /** Last success of each command, keyed by command fingerprint, so that a run only re-runs the commands
+   *  that did not pass on the current files yet */
+  commandSnapshots?: Record<string, CommandSnapshot>;
+  /** Last reported failure, used to avoid re-blocking a Stop hook on identical failures */
+  lastFailure?: {
+    /** Hash of the failed commands and their (digit-normalized) output */
+    signature: string;
+    /** ISO-8601 timestamp of the failed run */
+    at: string;
+  };
+}
+
+/** How the files committed since the previous run were found when history was rewritten (amend, rebase,
+ *  reset): through the merge-base of the two HEADs, or by re-checking every matching file */
+export type HistoryFallback =
+  | { kind: 'merge-base'; mergeBase: string }
+  | { kind: 'full' };
+
+/** A file of a diff, as reported by `git diff --name-status -M`. Renamed files keep their previous path in `from`. */
+export interface DiffEntry {
+  status: 'added' | 'modified' | 'deleted' | 'renamed';
+  path: string;
+  from?: string;
+}
+
+/** A file git detected as renamed */
+export interface RenamedFile {
+  from: string;
+  to: string;
+}
+
+/** Changes of a watcher's files since its last successful snapshot */
+export interface FileChanges {
+  added: string[];
+  modified: string[];
+  deleted: string[];
+  renamed: RenamedFile[];
 }
 
-/** Root state file shape, keyed by glob pattern */
+/** Root state file shape, keyed by watcher id (see watcherStateKey) */
 export interface StateFile {
   [globPattern: string]: PatternState;
 }
 
+/** Claude Code hook payload received on stdin, see https://docs.anthropic.com/en/docs/claude-code/hooks */
+export interface HookContext {
+  /** Hook event that triggered the run (`Stop`, `SubagentStop`, `PostToolUse`...) */
+  hookEventName?: string;
+  sessionId?: string;
+  /** Working directory of the Claude Code session */
+  cwd?: string;
+  transcriptPath?: string;
+  /** True when Claude is already continuing as the result of a previous Stop hook */
+  stopHookActive?: boolean;
+}
+
+/** How results are reported: raw failures on stderr with exit code 2, or the Claude Code hook JSON protocol */
+export type OutputFormat = 'text' | 'claude-hook';
+
 /** Parsed CLI arguments */
 export interface CliArgs {
-  on: string;
+  /** Empty when watchers come from a config file */
+  on: string[];
+  ignore: string[];
+  id?: string;
   exec: string[];
+  inputs: string[];
+  config?: string;
   execTimeout: number;
   filesSeparator: string;
   stateFile: string;
+  outputFormat: OutputFormat;
+  execSequential: boolean;
+  untracked: boolean;
+  dryRun: boolean;
+  explain: boolean;
+  failFast: boolean;
+  maxParallel?: number;
+  cache: boolean;
+  cacheDir?: string;
+  since?: string;
+  staged: boolean;
+  reports: ReportTarget[];
+}
+
+/** A command declared as an object, to name it, make it depend on other commands or tune how it runs */
+export interface CommandSpec {
+  /** Shell command line; `{{VAR}}` placeholders are interpolated */
+  run: string;
+  /** Name referenced by other commands' `needs` (defaults to `run`) */
+  name?: string;
+  /** Names of the commands that must succeed before this one starts */
+  needs?: string[];
+  /** Working directory, relative to the git root (default: the git root) */
+  cwd?: string;
+  /** Timeout in seconds, overriding the watcher's `execTimeout` */
+  timeout?: number;
+  /** Environment variables added to the inherited environment */
+  env?: Record<string, string>;
+  /** Shell running the command line (default: `/bin/sh`, `cmd.exe` on Windows) */
+  shell?: string;
+  /** Never run alongside any other command, from this watcher or another one */
+  exclusive?: boolean;
+  /** Extra attempts when the command fails (default: 0) */
+  retries?: number;
+  /** Seconds to wait before each retry (default: 0) */
+  retryDelay?: number;
+  /** Only retry on these exit codes (default: any failure, timeouts included) */
+  retryOn?: number[];
+}
+
+/** A command as accepted in `exec`: a plain shell command line or a CommandSpec */
+export type CommandConfig = string | CommandSpec;
+
+/** Outcome of one attempt of a retried command */
+export interface CommandAttempt {
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut?: boolean;
+  durationMs?: number;
 }
 
 /** Result of running a single command */
 export interface CommandResult {
   command: string;
-  exitCode: number;
+  /** Explicit command name, when it differs from the command line */
+  name?: string;
+  /** null when the command did not run or timed out */
+  exitCode: number | null;
   stdout: string;
   stderr: string;
+  /** True when the command was not run because a command it needs did not succeed */
+  skipped?: boolean;
+  /** True when the command was killed because it exceeded its timeout */
+  timedOut?: boolean;
+  /** True when the command was killed, or not started, because another one failed (`--fail-fast`) */
+  cancelled?: boolean;
+  /** Timeout applied to the command, in seconds, when it ran */
+  timeout?: number;
+  /** Working directory declared by the command, relative to the git root */
+  cwd?: string;
+  /** Environment variables declared by the command (the inherited environment is not reported) */
+  env?: Record<string, string>;
+  /** Wall-clock duration of the command, retries included, absent when it did not run */
+  durationMs?: number;
+  /** Every attempt, in order, when the command was retried; the result fields are those of the last one */
+  attempts?: CommandAttempt[];
+  /** True when the command failed, then passed on a retry */
+  flaky?: boolean;
+  /** True when the command did not run because it already passed on the current files (exitCode is 0) */
+  upToDate?: boolean;
 }